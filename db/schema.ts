@@ -1,7 +1,271 @@
-import { integer, pgTable, varchar, text } from 'drizzle-orm/pg-core';
+import {
+    bigint,
+    bigserial,
+    boolean,
+    check,
+    customType,
+    date,
+    doublePrecision,
+    integer,
+    jsonb,
+    pgSchema,
+    pgTable,
+    primaryKey,
+    serial,
+    text,
+    timestamp,
+    unique,
+    uuid,
+    varchar,
+    vector,
+    index,
+    uniqueIndex
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
-export const posts = pgTable('posts', {
-    id: integer().primaryKey().generatedAlwaysAsIdentity(),
-    title: varchar({ length: 255 }).notNull(),
-    content: text().notNull().default('')
-});
\ No newline at end of file
+// drizzle has no built-in tsvector column type
+const tsvector = customType<{ data: string }>({
+    dataType() {
+        return 'tsvector';
+    }
+});
+
+/**
+ * Mirrors the tables created by the versioned migrations in
+ * netlify/functions/shared/migrations. Those migrations are the source of truth;
+ * keep this file in step with them.
+ */
+
+export const core = pgSchema('core');
+export const rag = pgSchema('rag');
+
+export const schemaMigrations = pgTable('schema_migrations', {
+    version: integer().primaryKey(),
+    name: varchar({ length: 255 }).notNull(),
+    checksum: varchar({ length: 64 }).notNull(),
+    appliedAt: timestamp('applied_at', { withTimezone: true }).defaultNow()
+});
+
+export const users = core.table('users', {
+    id: serial().primaryKey(),
+    email: varchar({ length: 255 }).notNull().unique(),
+    name: varchar({ length: 255 }).notNull(),
+    role: varchar({ length: 50 }).default('student'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+});
+
+// Tenant-owned tables below have Row-Level Security enabled (migration 0003)
+export const documents = rag.table('documents', {
+    id: serial().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    title: varchar({ length: 500 }).notNull(),
+    content: text().notNull(),
+    embedding: vector({ dimensions: 1536 }),
+    metadata: jsonb().default({}),
+    sourceUrl: varchar('source_url', { length: 1000 }),
+    documentType: varchar('document_type', { length: 100 }).default('text'),
+    createdBy: integer('created_by').references(() => users.id),
+    teksCodes: text('teks_codes').array().notNull().default(sql`'{}'`),
+    activeIndexVersion: integer('active_index_version'),
+    fileSha256: varchar('file_sha256', { length: 64 }),
+    fileVersion: integer('file_version').notNull().default(1),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    index('idx_documents_created_by').on(table.createdBy),
+    index('idx_documents_document_type').on(table.documentType),
+    index('idx_documents_tenant_id').on(table.tenantId, table.id),
+    index('idx_documents_teks_codes').using('gin', table.teksCodes),
+    index('idx_documents_tenant_created_at').on(table.tenantId, table.createdAt),
+    uniqueIndex('idx_documents_file_sha256').on(table.tenantId, table.fileSha256, table.fileVersion)
+        .where(sql`${table.fileSha256} IS NOT NULL`)
+]);
+
+export const chunks = rag.table('chunks', {
+    id: serial().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    docId: integer('doc_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+    chunkId: integer('chunk_id').notNull(),
+    indexVersion: integer('index_version').notNull().default(1),
+    section: varchar({ length: 500 }),
+    sectionNumber: integer('section_number'),
+    pageFrom: integer('page_from'),
+    pageTo: integer('page_to'),
+    tokenStart: integer('token_start'),
+    tokenEnd: integer('token_end'),
+    tokenCount: integer('token_count'),
+    sha256: varchar({ length: 64 }).notNull(),
+    text: text().notNull(),
+    searchTsv: tsvector('search_tsv').generatedAlwaysAs(
+        sql`setweight(to_tsvector('english', COALESCE(section, '')), 'A') || setweight(to_tsvector('english', text), 'B')`
+    ),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    uniqueIndex('idx_chunks_doc_version_chunk').on(table.docId, table.indexVersion, table.chunkId),
+    index('idx_chunks_sha256').on(table.sha256),
+    index('idx_chunks_tenant_doc').on(table.tenantId, table.docId),
+    index('idx_chunks_search_tsv').using('gin', table.searchTsv),
+    index('idx_chunks_doc_section_number').on(table.docId, table.sectionNumber)
+]);
+
+export const embeddings = rag.table('embeddings', {
+    id: serial().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    documentId: integer('document_id').references(() => documents.id, { onDelete: 'cascade' }),
+    chunkId: integer('chunk_id').notNull().references(() => chunks.id, { onDelete: 'cascade' }),
+    model: varchar({ length: 100 }).notNull(),
+    dims: integer().notNull(),
+    embedding: vector({ dimensions: 1536 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    index('idx_embeddings_document_id').on(table.documentId),
+    index('idx_embeddings_embedding').using('ivfflat', table.embedding.op('vector_cosine_ops')).with({ lists: 100 }),
+    uniqueIndex('idx_embeddings_chunk_model').on(table.chunkId, table.model),
+    index('idx_embeddings_tenant_id').on(table.tenantId)
+]);
+
+export const retrievalLogs = rag.table('retrieval_logs', {
+    id: serial().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }),
+    requestId: varchar('request_id', { length: 36 }).notNull().unique(),
+    queryText: text('query_text').notNull(),
+    chunkIds: integer('chunk_ids').array().notNull(),
+    latencyMs: integer('latency_ms').notNull(),
+    docId: varchar('doc_id', { length: 255 }),
+    topK: integer('top_k').default(5),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    index('idx_retrieval_logs_request_id').on(table.requestId),
+    index('idx_retrieval_logs_created_at').on(table.createdAt),
+    index('idx_retrieval_logs_tenant_id').on(table.tenantId, table.createdAt)
+]);
+
+export const ingestJobs = rag.table('ingest_jobs', {
+    id: bigserial({ mode: 'number' }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    docId: varchar('doc_id', { length: 255 }).notNull(),
+    idempotencyKey: varchar('idempotency_key', { length: 255 }),
+    status: varchar({ length: 20 }).notNull().default('queued'),
+    attempts: integer().notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(5),
+    runAfter: timestamp('run_after', { withTimezone: true }).notNull().defaultNow(),
+    lockedAt: timestamp('locked_at', { withTimezone: true }),
+    lockedBy: varchar('locked_by', { length: 100 }),
+    lastError: text('last_error'),
+    payload: jsonb().notNull().default({}),
+    result: jsonb(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true })
+}, (table) => [
+    check('ingest_jobs_status_check', sql`${table.status} IN ('queued', 'running', 'succeeded', 'failed')`),
+    uniqueIndex('idx_ingest_jobs_idempotency').on(table.tenantId, table.idempotencyKey),
+    uniqueIndex('idx_ingest_jobs_active_doc').on(table.tenantId, table.docId)
+        .where(sql`${table.status} IN ('queued', 'running')`),
+    index('idx_ingest_jobs_claim').on(table.tenantId, table.id)
+        .where(sql`${table.status} IN ('queued', 'running')`)
+]);
+
+export const indexVersions = rag.table('index_versions', {
+    id: serial().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    docId: integer('doc_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+    version: integer().notNull(),
+    status: varchar({ length: 20 }).notNull().default('building'),
+    embeddingModel: varchar('embedding_model', { length: 100 }).notNull(),
+    chunkMaxTokens: integer('chunk_max_tokens').notNull(),
+    chunkOverlapTokens: integer('chunk_overlap_tokens').notNull(),
+    textSha256: varchar('text_sha256', { length: 64 }),
+    chunksCount: integer('chunks_count'),
+    jobId: bigint('job_id', { mode: 'number' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    activatedAt: timestamp('activated_at', { withTimezone: true }),
+    retiredAt: timestamp('retired_at', { withTimezone: true })
+}, (table) => [
+    check('index_versions_status_check', sql`${table.status} IN ('building', 'active', 'retired', 'failed')`),
+    unique().on(table.docId, table.version),
+    index('idx_index_versions_tenant_status').on(table.tenantId, table.status)
+]);
+
+export const usageDaily = rag.table('usage_daily', {
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    day: date().notNull(),
+    queries: integer().notNull().default(0),
+    avgLatencyMs: integer('avg_latency_ms'),
+    p95LatencyMs: integer('p95_latency_ms'),
+    documentsUploaded: integer('documents_uploaded').notNull().default(0),
+    ingestJobsSucceeded: integer('ingest_jobs_succeeded').notNull().default(0),
+    ingestJobsFailed: integer('ingest_jobs_failed').notNull().default(0),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    primaryKey({ columns: [table.tenantId, table.day] })
+]);
+
+export const rateLimitBuckets = rag.table('rate_limit_buckets', {
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    route: varchar({ length: 50 }).notNull(),
+    tokens: doublePrecision().notNull(),
+    lastAllowed: boolean('last_allowed').notNull().default(true),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => [
+    primaryKey({ columns: [table.tenantId, table.route] })
+]);
+
+export const tenantQuotas = rag.table('tenant_quotas', {
+    tenantId: varchar('tenant_id', { length: 64 }).primaryKey(),
+    routeLimits: jsonb('route_limits').notNull().default({}),
+    dailyLlmTokens: bigint('daily_llm_tokens', { mode: 'number' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+});
+
+export const llmTokenUsage = rag.table('llm_token_usage', {
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    day: date().notNull(),
+    tokens: bigint({ mode: 'number' }).notNull().default(0),
+    requests: integer().notNull().default(0),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => [
+    primaryKey({ columns: [table.tenantId, table.day] })
+]);
+
+export const uploadSessions = rag.table('upload_sessions', {
+    id: uuid().primaryKey(),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    createdBy: varchar('created_by', { length: 255 }).notNull(),
+    filename: varchar({ length: 255 }).notNull(),
+    mimetype: varchar({ length: 100 }).notNull(),
+    title: varchar({ length: 500 }).notNull(),
+    documentType: varchar('document_type', { length: 100 }).notNull(),
+    teksCodes: text('teks_codes').array().notNull().default(sql`'{}'`),
+    newVersion: boolean('new_version').notNull().default(false),
+    totalSize: bigint('total_size', { mode: 'number' }).notNull(),
+    partSize: integer('part_size').notNull(),
+    partCount: integer('part_count').notNull(),
+    sha256: varchar({ length: 64 }).notNull(),
+    status: varchar({ length: 20 }).notNull().default('open'),
+    docId: varchar('doc_id', { length: 255 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true })
+}, (table) => [
+    check('upload_sessions_status_check', sql`${table.status} IN ('open', 'completing', 'completed', 'aborted', 'expired')`),
+    index('idx_upload_sessions_expiry').on(table.expiresAt)
+        .where(sql`${table.status} IN ('open', 'completing')`)
+]);
+
+export const uploadParts = rag.table('upload_parts', {
+    sessionId: uuid('session_id').notNull().references(() => uploadSessions.id, { onDelete: 'cascade' }),
+    tenantId: varchar('tenant_id', { length: 64 }).notNull(),
+    partNumber: integer('part_number').notNull(),
+    size: integer().notNull(),
+    sha256: varchar({ length: 64 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => [
+    primaryKey({ columns: [table.sessionId, table.partNumber] })
+]);
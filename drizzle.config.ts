@@ -7,8 +7,9 @@ export default defineConfig({
     },
     schema: './db/schema.ts',
     /**
-     * Never edit the migrations directly, only use drizzle.
-     * There are scripts in the package.json "db:generate" and "db:migrate" to handle this.
+     * The schema is applied by the versioned migrations in netlify/functions/shared/migrations
+     * (run through the db-migrate function). db/schema.ts mirrors them for typed queries and
+     * drizzle studio; use "db:generate" only to diff the two, never to change the database.
      */
     out: './migrations'
 });
\ No newline at end of file
@@ -2,65 +2,166 @@ import { Handler } from '@netlify/functions';
 import { getStore } from '@netlify/blobs';
 import { Client } from 'pg';
 import mammoth from 'mammoth';
-import { createHash } from 'crypto';
-import OpenAI from 'openai';
+import { createHash, randomUUID } from 'crypto';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { chunkText, countTokens, sectionNumber, TextChunk } from '../shared/chunker';
+import { renderPageText, joinPdfPages } from '../shared/pdf-pages';
+import { detectFileKind, kindForMimetype, kindForFilename } from '../shared/file-validation';
+import { setTenantScope, setServiceScope } from '../shared/tenant';
+import { authenticate, hasWorkerSecret } from '../shared/auth';
+import { createErrorResponse, ErrorCodes } from '../shared/utils';
+import { getProvider, LLMProvider } from '../shared/llm';
+import { buildTextStructure, saveExtractedArtifacts, loadExtractedText } from '../shared/artifacts';
+import { activeIndexVersion, resolveIndexSettings, createIndexVersion, activateIndexVersion } from '../shared/index-versions';
+import {
+  recordStage,
+  restartIngestion,
+  recordFailure,
+  ingestionState,
+  hasWarnings,
+  EmbeddingProgress,
+  ChunkFailure,
+  PageFailure,
+  IngestWarnings
+} from '../shared/ingest-status';
+import {
+  enqueueIngestJob,
+  claimNextJob,
+  nextRunAfter,
+  completeJob,
+  failJob,
+  IngestJob,
+  PermanentJobError
+} from '../shared/ingest-queue';
 
 interface IngestInput {
   doc_id?: string;
-  tenant_id?: string;
+  tenant_id?: string;    // optional; must match the caller's token if sent
   blob_key?: string;     // optional alternative to doc_id
   blob_url?: string;     // optional alternative to doc_id
+  idempotency_key?: string;
+  all_tenants?: boolean;  // admin only: drain every tenant's queue (re-indexing everything)
 }
 
-// Simple word-based tokenizer approximation
-function estimateTokens(text: string): number {
-  return Math.ceil(text.split(/\s+/).length * 1.3); // Rough estimate: 1.3 tokens per word
+// Spelled-out chapter numbers seen in headings
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty';
+
+const HEADING_LINE = new RegExp(
+  `^(Chapter|CHAPTER|Part|PART|Book|BOOK|Section|SECTION|Unit|UNIT)\\s+(\\d+|[IVXLC]+|${NUMBER_WORDS})\\b(.*)$`,
+  'i'
+);
+
+// Turn "Chapter 3: The Storm" style lines into section markers instead of losing them in prose
+function markHeadingLine(line: string): string {
+  const match = line.trim().match(HEADING_LINE);
+  if (!match || !/^[A-Z]/.test(match[1])) return line;
+
+  const rest = match[3].trim();
+  const titled = rest === '' ||
+    /^[:.\-–—]/.test(rest) ||
+    rest.split(/\s+/).every(word => /^[A-Z0-9"'(]/.test(word));
+
+  if (!titled || rest.length > 80 || /[,;]$/.test(rest)) return line;
+  return `# ${line.trim()}`;
 }
 
 // Text cleaning function
 function cleanText(text: string): string {
   return text
-    // Remove headers/footers patterns
-    .replace(/^(Page \d+|\d+\s*$)/gm, '')
-    .replace(/^(Chapter \d+|Section \d+)/gm, '')
-    // Collapse whitespace
-    .replace(/\s+/g, ' ')
-    .replace(/\n\s*\n/g, '\n')
+    // Normalize typographic quotes
+    .replace(/[\u2018\u2019\u201A\u201B\u2032]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u201F\u2033]/g, '"')
+    // Keep chapter headings as section markers
+    .split(/([\n\f])/)
+    .map(line => (line.trimStart().startsWith('#') ? line : markHeadingLine(line)))
+    .join('')
+    // Collapse whitespace, keeping line and page breaks so structure survives
+    .replace(/[^\S\n\f]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^[ \n]+|[ \n]+$/g, '');
+}
+
+// Decode the handful of entities that show up in EPUB XHTML
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    mdash: '\u2014', ndash: '\u2013', hellip: '\u2026',
+    lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201C', rdquo: '\u201D'
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Convert a spine XHTML document to plain text.
+// h1-h3 are kept as markdown-style "#" lines so chunks can be attributed to a chapter/section.
+export function xhtmlToText(xhtml: string): string {
+  const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+  const body = xhtml
+    .replace(/<head[\s\S]*?<\/head>/gi, '')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\?xml[\s\S]*?\?>|<!DOCTYPE[^>]*>/gi, '');
+
+  const text = body
+    .replace(/<h([1-3])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) => {
+      const heading = stripTags(inner);
+      return heading ? `\n\n${'#'.repeat(Number(level))} ${heading}\n\n` : '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|blockquote|section|article|tr|h[4-6])>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
     .trim();
 }
 
-// Word-based chunking with overlap
-function chunkText(text: string, maxTokens: number = 700, overlapTokens: number = 120): string[] {
-  const words = text.split(/\s+/);
-  const chunks: string[] = [];
-  
-  const wordsPerToken = 1 / 1.3; // Inverse of token estimation
-  const maxWords = Math.floor(maxTokens * wordsPerToken);
-  const overlapWords = Math.floor(overlapTokens * wordsPerToken);
-  
-  let start = 0;
-  
-  while (start < words.length) {
-    const end = Math.min(start + maxWords, words.length);
-    const chunk = words.slice(start, end).join(' ');
-    
-    if (chunk.trim()) {
-      chunks.push(chunk.trim());
+// Read EPUB chapters in spine order
+async function extractEpubText(buffer: Buffer): Promise<string> {
+  // Lazy-load epub2 for the same cold start reasons as pdf-parse
+  const epubModule = await import('epub2');
+  const EPub = (epubModule as any).EPub ?? (epubModule as any).default;
+
+  // epub2 only opens archives from disk
+  const dir = await mkdtemp(join(tmpdir(), 'epub-'));
+  const filePath = join(dir, 'book.epub');
+
+  try {
+    await writeFile(filePath, buffer);
+    const epub = await EPub.createAsync(filePath);
+
+    const parts: string[] = [];
+    for (const item of epub.flow) {
+      if (!item.id) continue;
+      const mediaType = item['media-type'] || item.mediaType;
+      if (mediaType && mediaType !== 'application/xhtml+xml') continue;
+
+      const xhtml: string = await epub.getChapterRawAsync(item.id);
+      const text = xhtmlToText(xhtml);
+      if (text) {
+        parts.push(text);
+      }
     }
-    
-    // Move start position with overlap
-    start = end - overlapWords;
-    if (start >= words.length) break;
+
+    return parts.join('\n\n');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
   }
-  
-  return chunks;
 }
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Sleep utility for retry backoff
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -72,16 +173,11 @@ function generateContentHash(text: string): string {
 }
 
 // Get embeddings with retry and backoff
-async function getEmbeddingWithRetry(text: string, maxRetries: number = 3): Promise<number[]> {
+async function getEmbeddingWithRetry(provider: LLMProvider, text: string, maxRetries: number = 3): Promise<number[]> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float'
-      });
-      
-      return response.data[0].embedding;
+      const [embedding] = await provider.embed([text]);
+      return embedding;
     } catch (error) {
       console.error(`Embedding attempt ${attempt} failed:`, error);
       
@@ -98,64 +194,122 @@ async function getEmbeddingWithRetry(text: string, maxRetries: number = 3): Prom
   throw new Error('Max retries exceeded');
 }
 
-// Batch process embeddings with caching
+// Batch process embeddings with caching. Failed chunks are recorded with their reason, not fatal;
+// Chunks are written under indexVersion; onProgress runs after every batch. With indexes, only those chunk positions are processed.
 async function processEmbeddingsBatch(
-  chunks: string[], 
+  chunks: TextChunk[], 
   client: Client, 
-  dbDocId: number
-): Promise<void> {
+  dbDocId: number,
+  tenantId: string,
+  provider: LLMProvider,
+  indexVersion: number,
+  onProgress?: (progress: EmbeddingProgress) => Promise<void>,
+  indexes?: number[]
+): Promise<EmbeddingProgress & { failures: ChunkFailure[] }> {
   const batchSize = 10; // Process 10 chunks at a time
+  const positions = indexes ?? chunks.map((_chunk, index) => index);
+  const chunkFailures: ChunkFailure[] = [];
+  let embedded = 0;
   
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    const batch = chunks.slice(i, i + batchSize);
-    console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
+  for (let i = 0; i < positions.length; i += batchSize) {
+    const batch = positions.slice(i, i + batchSize);
+    console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(positions.length / batchSize)}`);
     
     // Process batch in parallel with individual retry logic
-    const embeddingPromises = batch.map(async (chunk, batchIndex) => {
-      const chunkIndex = i + batchIndex;
-      const contentHash = generateContentHash(chunk);
+    const embeddingPromises = batch.map(async (chunkIndex) => {
+      const chunk = chunks[chunkIndex];
+      const contentHash = generateContentHash(chunk.text);
       
       try {
-        // Check if embedding already exists (hash-based cache)
-        const existingResult = await client.query(
-          'SELECT embedding FROM rag.embeddings WHERE content_hash = $1',
-          [contentHash]
-        );
+        // Check if embedding already exists (hash-based cache, per model)
+        const existingResult = await client.query(`
+          SELECT e.embedding
+          FROM rag.embeddings e
+          JOIN rag.chunks c ON c.id = e.chunk_id
+          WHERE c.sha256 = $1 AND e.model = $2
+          LIMIT 1
+        `, [contentHash, provider.embeddingModel]);
         
         let embedding: number[];
         
         if (existingResult.rows.length > 0) {
           console.log(`Using cached embedding for chunk ${chunkIndex}`);
-          embedding = existingResult.rows[0].embedding;
+          // pg returns vector columns in their text form "[0.1,0.2,...]"
+          const cached = existingResult.rows[0].embedding;
+          embedding = typeof cached === 'string' ? JSON.parse(cached) : cached;
         } else {
           console.log(`Generating new embedding for chunk ${chunkIndex}`);
-          embedding = await getEmbeddingWithRetry(chunk);
+          embedding = await getEmbeddingWithRetry(provider, chunk.text);
         }
         
-        const tokenCount = estimateTokens(chunk);
+        // Store chunk text and provenance
+        const chunkResult = await client.query(`
+          INSERT INTO rag.chunks (
+            tenant_id,
+            doc_id,
+            index_version,
+            chunk_id,
+            section,
+            section_number,
+            page_from,
+            page_to,
+            token_start,
+            token_end,
+            token_count,
+            sha256,
+            text
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+          ON CONFLICT (doc_id, index_version, chunk_id) DO UPDATE SET
+            section = EXCLUDED.section,
+            section_number = EXCLUDED.section_number,
+            page_from = EXCLUDED.page_from,
+            page_to = EXCLUDED.page_to,
+            token_start = EXCLUDED.token_start,
+            token_end = EXCLUDED.token_end,
+            token_count = EXCLUDED.token_count,
+            sha256 = EXCLUDED.sha256,
+            text = EXCLUDED.text,
+            updated_at = CURRENT_TIMESTAMP
+          RETURNING id
+        `, [
+          tenantId,
+          dbDocId,
+          indexVersion,
+          chunkIndex,
+          chunk.section,
+          sectionNumber(chunk.section),
+          chunk.page_range?.[0] ?? null,
+          chunk.page_range?.[1] ?? null,
+          chunk.start_token,
+          chunk.end_token,
+          countTokens(chunk.text),
+          contentHash,
+          chunk.text
+        ]);
         
         // Store embedding in database
         await client.query(`
           INSERT INTO rag.embeddings (
-            document_id, 
-            chunk_index, 
-            content, 
-            content_hash,
-            embedding, 
-            token_count,
+            tenant_id,
+            document_id,
+            chunk_id,
+            model,
+            dims,
+            embedding,
             created_at
           ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
-          ON CONFLICT (content_hash) DO UPDATE SET
-            document_id = EXCLUDED.document_id,
-            chunk_index = EXCLUDED.chunk_index,
+          ON CONFLICT (chunk_id, model) DO UPDATE SET
+            embedding = EXCLUDED.embedding,
+            dims = EXCLUDED.dims,
             updated_at = CURRENT_TIMESTAMP
         `, [
+          tenantId,
           dbDocId,
-          chunkIndex,
-          chunk,
-          contentHash,
-          `[${embedding.join(',')}]`, // Store as array string
-          tokenCount
+          chunkResult.rows[0].id,
+          // Model name is part of the cache key and of every vector's identity
+          provider.embeddingModel,
+          embedding.length,
+          `[${embedding.join(',')}]` // Store as array string
         ]);
         
         return { chunkIndex, success: true };
@@ -170,45 +324,101 @@ async function processEmbeddingsBatch(
     
     // Check for failures
     const failures = results
-      .map((result, idx) => ({ result, idx: i + idx }))
+      .map((result, idx) => ({ result, idx: batch[idx] }))
       .filter(({ result }) => result.status === 'rejected' || 
         (result.status === 'fulfilled' && !result.value.success));
     
     if (failures.length > 0) {
       console.error(`Batch had ${failures.length} failures:`, failures);
+      chunkFailures.push(...failures.map(({ result, idx }) => {
+        const reason = result.status === 'rejected' ? result.reason : result.value.error;
+        return { chunk_index: idx, error: reason instanceof Error ? reason.message : String(reason) };
+      }));
+    }
+    embedded += batch.length - failures.length;
+    
+    if (onProgress) {
+      await onProgress({ total: positions.length, embedded, failed: chunkFailures.length });
     }
     
     // Small delay between batches to avoid rate limiting
-    if (i + batchSize < chunks.length) {
+    if (i + batchSize < positions.length) {
       await sleep(1000); // 1 second between batches
     }
   }
+  
+  // Drop chunks past the end of this version's text, and earlier text at positions that failed this time
+  await client.query(
+    'DELETE FROM rag.chunks WHERE doc_id = $1 AND index_version = $2 AND (chunk_id >= $3 OR chunk_id = ANY($4::int[]))',
+    [dbDocId, indexVersion, chunks.length, chunkFailures.map(failure => failure.chunk_index)]
+  );
+  
+  return { total: positions.length, embedded, failed: chunkFailures.length, failures: chunkFailures };
 }
 
-// Extract text based on file type
-export async function extractText(buffer: Buffer, filename: string, mimetype: string): Promise<string> {
-  const ext = filename.split('.').pop()?.toLowerCase();
+export interface ExtractedDocument {
+  text: string;
+  failed_pages: PageFailure[];   // PDF pages that could not be rendered; left empty in text
+}
+
+// Extract text based on file type. A PDF or ZIP signature in the bytes wins over the stored mimetype;
+// text has no signature, so for it the stored mimetype or extension decides. A PDF page that fails
+// to render is recorded and skipped rather than failing the whole document.
+export async function extractDocument(buffer: Buffer, filename: string, mimetype: string): Promise<ExtractedDocument> {
+  const detected = detectFileKind(buffer, filename);
+  const kind = detected === 'pdf' || detected === 'docx' || detected === 'epub'
+    ? detected
+    : kindForMimetype(mimetype) ?? kindForFilename(filename) ?? detected;
   
   try {
-    if (mimetype.includes('pdf') || ext === 'pdf') {
+    if (kind === 'pdf') {
       // Lazy-load pdf-parse to avoid cold start evaluation issues in serverless bundlers
       const pdfModule = await import('pdf-parse');
       const pdf = (pdfModule as any).default ?? pdfModule;
-      const data = await pdf(buffer);
-      return data.text;
+
+      // Render page by page so headers/footers can be detected and page numbers kept
+      const pages: string[] = [];
+      const failedPages: PageFailure[] = [];
+      const data = await pdf(buffer, {
+        pagerender: async (pageData: any) => {
+          const index = pageData.pageIndex ?? pages.length;
+          try {
+            pages[index] = await renderPageText(pageData);
+          } catch (error) {
+            console.error(`Failed to render page ${index + 1}:`, error);
+            failedPages.push({ page: index + 1, error: error instanceof Error ? error.message : String(error) });
+            pages[index] = '';
+          }
+          return pages[index];
+        }
+      });
+
+      if (pages.length === 0) {
+        return { text: data.text, failed_pages: [] };
+      }
+
+      const pageCount = Math.max(pages.length, data.numpages || 0);
+      return {
+        text: joinPdfPages(Array.from({ length: pageCount }, (_, i) => pages[i] ?? '')),
+        failed_pages: failedPages.sort((a, b) => a.page - b.page)
+      };
     }
     
-    if (mimetype.includes('word') || ext === 'docx') {
-      const result = await mammoth.extractRawText({ buffer });
-      return result.value;
+    if (kind === 'epub') {
+      return { text: await extractEpubText(buffer), failed_pages: [] };
     }
     
-    if (mimetype.includes('text') || ext === 'txt') {
-      return buffer.toString('utf-8');
+    if (kind === 'docx') {
+      const result = await mammoth.extractRawText({ buffer });
+      return { text: result.value, failed_pages: [] };
+    }
+
+    if (kind === 'html') {
+      return { text: xhtmlToText(buffer.toString('utf-8')), failed_pages: [] };
     }
     
-    // For other formats, try to extract as text
-    return buffer.toString('utf-8');
+    // Plain text, and for other formats, try to extract as text
+    return { text: buffer.toString('utf-8'), failed_pages: [] };
     
   } catch (error) {
     console.error('Text extraction error:', error);
@@ -216,17 +426,346 @@ export async function extractText(buffer: Buffer, filename: string, mimetype: st
   }
 }
 
+export async function extractText(buffer: Buffer, filename: string, mimetype: string): Promise<string> {
+  return (await extractDocument(buffer, filename, mimetype)).text;
+}
+
+interface DocumentRow {
+  id: number;
+  title: string;
+  metadata: Record<string, any>;
+}
+
+// Look the document up by doc_id, or by the blob it was uploaded to
+async function findDocument(client: Client, tenantId: string, input: IngestInput): Promise<DocumentRow | null> {
+  let result;
+  if (input.doc_id) {
+    result = await client.query(
+      'SELECT id, title, metadata FROM rag.documents WHERE metadata->>\'doc_id\' = $1 AND tenant_id = $2',
+      [input.doc_id, tenantId]
+    );
+  } else {
+    let blobKey = input.blob_key;
+    if (!blobKey && input.blob_url) {
+      // Best-effort: derive key from URL path (last path segment(s))
+      try {
+        blobKey = new URL(input.blob_url).pathname.replace(/^\//, '');
+      } catch {}
+    }
+    if (!blobKey) {
+      return null;
+    }
+    result = await client.query(
+      'SELECT id, title, metadata FROM rag.documents WHERE metadata->>\'blob_path\' = $1 AND tenant_id = $2',
+      [blobKey, tenantId]
+    );
+  }
+  return result.rows[0] ?? null;
+}
+
+// Fetch the uploaded original and extract its cleaned text
+async function extractFromUpload(job: IngestJob, metadata: Record<string, any>): Promise<ExtractedDocument> {
+  // Fetch file from Blobs
+  const store = getStore('uploads');
+  const blobPath = metadata.blob_path;
+  const blobUrl: string | undefined = job.payload.blob_url;
+  let fileBuffer: ArrayBuffer | null = null;
+  if (blobPath) {
+    const blobData = await store.get(blobPath, { type: 'arrayBuffer' });
+    if (blobData) {
+      fileBuffer = blobData;
+    }
+  } else if (blobUrl) {
+    const resp = await fetch(blobUrl);
+    if (!resp.ok) throw new Error(`Failed to fetch blob_url: ${resp.status}`);
+    fileBuffer = await resp.arrayBuffer();
+  }
+  
+  if (!fileBuffer) {
+    throw new PermanentJobError(`File not found in blob storage: ${blobPath}`);
+  }
+  
+  // Extract text; a file that cannot be parsed will not parse on a retry either
+  let extracted: ExtractedDocument;
+  try {
+    extracted = await extractDocument(
+      Buffer.from(fileBuffer),
+      metadata.original_filename,
+      metadata.mimetype
+    );
+  } catch (error) {
+    throw new PermanentJobError(error instanceof Error ? error.message : 'Text extraction failed');
+  }
+  
+  return { text: cleanText(extracted.text), failed_pages: extracted.failed_pages };
+}
+
+interface JobResult {
+  chunks_processed: number;
+  chunks_failed: number;
+  pages_failed: number;
+  index_version: number;
+}
+
+// Extract, chunk and embed one queued document, recording each stage, then mark it READY.
+// Pages and chunks that fail are kept as warnings (READY_WITH_WARNINGS) as long as something was stored.
+// A retry_failed job re-embeds only the chunks the previous run lost, provided the text has not changed.
+// A reindex job starts from the stored extracted text and may change the chunk settings or embedding model.
+// Every run except retry_failed builds a new index version, which replaces the live one only when complete.
+async function processJob(client: Client, job: IngestJob): Promise<JobResult> {
+  const document = await findDocument(client, job.tenant_id, { doc_id: job.doc_id });
+  if (!document) {
+    throw new PermanentJobError(`Document not found: ${job.doc_id}`);
+  }
+
+  const metadata = document.metadata;
+  const dbDocId = document.id;
+  const previous = ingestionState(metadata);
+  const active = await activeIndexVersion(client, dbDocId);
+  
+  await recordStage(client, job.tenant_id, job.doc_id, 'PROCESSING', { job_id: job.id, attempt: job.attempts });
+  
+  // Documents extracted before the text was kept fall back to the original upload
+  const storedText = job.payload.mode === 'reindex' ? await loadExtractedText(metadata.extracted) : null;
+  const extracted: ExtractedDocument = storedText !== null
+    ? { text: storedText, failed_pages: previous.warnings?.failed_pages ?? [] }
+    : await extractFromUpload(job, metadata);
+  const cleanedText = extracted.text;
+  
+  if (!cleanedText.trim()) {
+    throw new PermanentJobError('No text content extracted from document');
+  }
+  
+  const textHash = generateContentHash(cleanedText);
+  await recordStage(client, job.tenant_id, job.doc_id, 'EXTRACTED', { text_sha256: textHash });
+  
+  const defaultProvider = getProvider();
+  const settings = resolveIndexSettings(job.payload, active, defaultProvider.embeddingModel);
+  const provider = settings.embedding_model === defaultProvider.embeddingModel
+    ? defaultProvider
+    : getProvider({ embeddingModel: settings.embedding_model });
+  
+  // Chunk text
+  const chunks = chunkText(cleanedText, { maxTokens: settings.chunk_max_tokens, overlapTokens: settings.chunk_overlap_tokens });
+  
+  // Same text and settings mean the same chunks, so only the failed positions need another try,
+  // written into the live index. Otherwise everything is re-run into a new version;
+  // unchanged chunks come from the embedding cache.
+  const retryIndexes = job.payload.mode === 'retry_failed' && active && previous.warnings && previous.text_sha256 === textHash
+    ? previous.warnings.failed_chunks.map(failure => failure.chunk_index).filter(index => index < chunks.length)
+    : undefined;
+  const indexVersion = retryIndexes
+    ? active!.version
+    : await createIndexVersion(
+      client, job.tenant_id, dbDocId, { ...settings, embedding_model: provider.embeddingModel }, textHash, job.id
+    );
+  
+  console.log(`Generated ${chunks.length} chunks for document ${job.doc_id} (index v${indexVersion})${retryIndexes ? `, retrying ${retryIndexes.length}` : ''}`);
+  
+  // Keep the full text and its structure; the documents row only holds a preview.
+  // The pointers are saved now so extraction can be inspected even if embedding fails.
+  const extractedArtifacts = await saveExtractedArtifacts(
+    job.tenant_id, job.doc_id, cleanedText, buildTextStructure(cleanedText, textHash, chunks)
+  );
+  await client.query(
+    'UPDATE rag.documents SET metadata = metadata || jsonb_build_object(\'extracted\', $1::jsonb) WHERE id = $2',
+    [JSON.stringify(extractedArtifacts), dbDocId]
+  );
+  await recordStage(client, job.tenant_id, job.doc_id, 'CHUNKED', {
+    progress: { total: retryIndexes?.length ?? chunks.length, embedded: 0, failed: 0 }
+  });
+  
+  // Process embeddings in batches with caching and retry logic
+  const embedding = await processEmbeddingsBatch(
+    chunks, client, dbDocId, job.tenant_id, provider, indexVersion,
+    progress => recordStage(client, job.tenant_id, job.doc_id, 'EMBEDDING', { progress }),
+    retryIndexes
+  );
+  
+  const countResult = await client.query(
+    'SELECT COUNT(*) AS stored FROM rag.chunks WHERE doc_id = $1 AND index_version = $2',
+    [dbDocId, indexVersion]
+  );
+  const storedChunks = parseInt(countResult.rows[0].stored, 10) || 0;
+  if (storedChunks === 0) {
+    // Nothing searchable; let the queue retry the whole document
+    throw new Error(`No chunks could be embedded: ${embedding.failures[0]?.error ?? 'unknown error'}`);
+  }
+  
+  // Queries switch to the new version here
+  await activateIndexVersion(client, dbDocId, indexVersion, storedChunks);
+  
+  const warnings: IngestWarnings = { failed_pages: extracted.failed_pages, failed_chunks: embedding.failures };
+  const progress: EmbeddingProgress = { total: chunks.length, embedded: storedChunks, failed: embedding.failed };
+  await recordStage(client, job.tenant_id, job.doc_id, 'INDEXED', { progress, warnings });
+  
+  // Store the preview and counts, then mark READY
+  await client.query(
+    'UPDATE rag.documents SET content = $1, metadata = metadata || $2::jsonb, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
+    [
+      cleanedText.substring(0, 10000), // Preview only; the full text is at metadata.extracted.text_key
+      JSON.stringify({ 
+        chunks_count: storedChunks,
+        total_tokens: chunks.length > 0 ? chunks[chunks.length - 1].end_token : 0,
+        processed_at: new Date().toISOString()
+      }),
+      dbDocId
+    ]
+  );
+  await recordStage(client, job.tenant_id, job.doc_id, hasWarnings(warnings) ? 'READY_WITH_WARNINGS' : 'READY');
+  
+  console.log(`Processed document ${job.doc_id}: ${storedChunks}/${chunks.length} chunks stored, ${embedding.failed} chunks and ${extracted.failed_pages.length} pages failed`);
+  return {
+    chunks_processed: storedChunks,
+    chunks_failed: embedding.failed,
+    pages_failed: extracted.failed_pages.length,
+    index_version: indexVersion
+  };
+}
+
+// Deployed as ingest-background, which may run for 15 minutes; stop claiming new jobs with time to spare
+const DRAIN_BUDGET_MS = 12 * 60_000;
+
+// Shortest wait before polling again for a job that should already be due
+const MIN_POLL_MS = 1000;
+
+interface ProcessedJob {
+  job_id: number;
+  doc_id: string;
+  attempt: number;
+  status: 'succeeded' | 'queued' | 'failed';
+  chunks_processed?: number;
+  chunks_failed?: number;
+  pages_failed?: number;
+  index_version?: number;
+  retry_in_ms?: number;
+  error?: string;
+}
+
+// Run the tenant's queued jobs in order until the queue is empty or the time budget runs out.
+// Retries that become due within the budget are waited for; later ones stay queued.
+async function drainQueue(
+  client: Client,
+  tenantId: string,
+  workerId: string,
+  deadline: number = Date.now() + DRAIN_BUDGET_MS
+): Promise<ProcessedJob[]> {
+  const processed: ProcessedJob[] = [];
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob(client, tenantId, workerId);
+
+    if (!job) {
+      const dueAt = await nextRunAfter(client, tenantId);
+      if (!dueAt || dueAt.getTime() >= deadline) break;
+      await sleep(Math.max(dueAt.getTime() - Date.now(), MIN_POLL_MS));
+      continue;
+    }
+
+    console.log(`Worker ${workerId} running ingest job ${job.id} for ${job.doc_id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    try {
+      const result = await processJob(client, job);
+      await completeJob(client, job, result);
+      processed.push({ job_id: job.id, doc_id: job.doc_id, attempt: job.attempts, status: 'succeeded', ...result });
+    } catch (error) {
+      console.error(`Ingest job ${job.id} failed:`, error);
+      const outcome = await failJob(client, job, error);
+      await recordFailure(
+        client,
+        tenantId,
+        job.doc_id,
+        error instanceof Error ? error.message : 'Unknown error',
+        outcome.status === 'queued' ? new Date(Date.now() + outcome.retry_in_ms) : undefined
+      );
+      processed.push({
+        job_id: job.id,
+        doc_id: job.doc_id,
+        attempt: job.attempts,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...outcome
+      });
+    }
+  }
+
+  return processed;
+}
+
+// Drain each tenant with queued work in turn, sharing one time budget. Every tenant's jobs
+// still run under that tenant's scope; only the list of tenants is read across them.
+async function drainAllTenants(client: Client, workerId: string): Promise<ProcessedJob[]> {
+  const deadline = Date.now() + DRAIN_BUDGET_MS;
+  await setServiceScope(client);
+  const tenants = await client.query(`
+    SELECT DISTINCT tenant_id FROM rag.ingest_jobs WHERE status IN ('queued', 'running') ORDER BY tenant_id
+  `);
+
+  const processed: ProcessedJob[] = [];
+  for (const { tenant_id } of tenants.rows) {
+    if (Date.now() >= deadline) break;
+    await setTenantScope(client, tenant_id);
+    processed.push(...await drainQueue(client, tenant_id, workerId, deadline));
+  }
+  return processed;
+}
+
+// Scheduled functions wake the worker with the worker secret rather than a user's token. That only
+// drains every tenant's queue; documents are queued by users.
+async function drainForService(input: IngestInput, workerId: string) {
+  if (!input.all_tenants || input.doc_id || input.blob_key || input.blob_url) {
+    return createErrorResponse(400, 'The worker secret only drains every tenant; send { "all_tenants": true }', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const client = new Client({
+    connectionString: process.env.NETLIFY_DATABASE_URL,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  });
+
+  await client.connect();
+
+  try {
+    const processed = await drainAllTenants(client, workerId);
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      body: JSON.stringify({ success: true, processed })
+    };
+  } finally {
+    await client.end();
+  }
+}
+
+// Queue worker. Called with a document identifier it queues that document first (idempotently);
+// either way it then drains the caller's tenant queue.
 export const handler: Handler = async (event, context) => {
   try {
+    if (hasWorkerSecret(event)) {
+      return await drainForService(JSON.parse(event.body || '{}'), context.awsRequestId || randomUUID());
+    }
+
+    const authResult = await authenticate(event, ['teacher', 'admin']);
+    if (!authResult.success) {
+      return {
+        statusCode: authResult.statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        body: JSON.stringify({ success: false, ...authResult.error })
+      };
+    }
+    // Every lookup and write is scoped to the tenant in the caller's token
+    const tenant_id = authResult.auth.tenantId;
+
     const input: IngestInput = JSON.parse(event.body || '{}');
-    const { doc_id, tenant_id, blob_key, blob_url } = input;
     
-    if (!doc_id && !blob_key && !blob_url) {
-      throw new Error('Missing identifier: provide doc_id or blob_key or blob_url');
+    if (input.tenant_id && input.tenant_id !== tenant_id) {
+      return createErrorResponse(403, 'tenant_id does not match the caller tenant', ErrorCodes.FORBIDDEN);
     }
     
-    console.log(`Starting ingestion for doc_id: ${doc_id}, tenant_id: ${tenant_id}`);
-    
     // Connect to database
     const client = new Client({
       connectionString: process.env.NETLIFY_DATABASE_URL,
@@ -236,108 +775,51 @@ export const handler: Handler = async (event, context) => {
     await client.connect();
     
     try {
-      // Get document metadata from database
-      let docResult;
-      if (doc_id) {
-        docResult = await client.query(
-          'SELECT id, title, metadata FROM rag.documents WHERE metadata->>\'doc_id\' = $1',
-          [doc_id]
-        );
-      } else if (blob_key) {
-        docResult = await client.query(
-          'SELECT id, title, metadata FROM rag.documents WHERE metadata->>\'blob_path\' = $1',
-          [blob_key]
-        );
-      } else if (blob_url) {
-        // Best-effort: derive key from URL path (last path segment(s))
-        let derivedKey = '';
-        try {
-          const u = new URL(blob_url);
-          derivedKey = u.pathname.replace(/^\//, '');
-        } catch {}
-        if (!derivedKey) {
-          throw new Error('Unable to derive blob_key from blob_url');
-        }
-        docResult = await client.query(
-          'SELECT id, title, metadata FROM rag.documents WHERE metadata->>\'blob_path\' = $1',
-          [derivedKey]
-        );
-      }
-      
-      if (!docResult || docResult.rows.length === 0) {
-        throw new Error(`Document not found: ${doc_id}`);
-      }
+      await setTenantScope(client, tenant_id);
       
-      const document = docResult.rows[0];
-      const metadata = document.metadata;
-      const dbDocId = document.id;
-      
-      // Update status to PROCESSING
-      await client.query(
-        'UPDATE rag.documents SET metadata = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-        [JSON.stringify({ ...metadata, status: 'PROCESSING' }), dbDocId]
-      );
-      
-      // Fetch file from Blobs
-      const store = getStore('uploads');
-      const blobPath = metadata.blob_path || blob_key;
-      let fileBuffer: ArrayBuffer | null = null;
-      if (blobPath) {
-        const blobData = await store.get(blobPath);
-        if (blobData) {
-          fileBuffer = blobData as unknown as ArrayBuffer;
+      let queued: { job: IngestJob; created: boolean } | undefined;
+      if (input.doc_id || input.blob_key || input.blob_url) {
+        const document = await findDocument(client, tenant_id, input);
+        if (!document) {
+          return {
+            statusCode: 404,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            },
+            body: JSON.stringify({ success: false, error: `Document not found: ${input.doc_id ?? input.blob_key ?? input.blob_url}` })
+          };
+        }
+
+        queued = await enqueueIngestJob(client, {
+          tenantId: tenant_id,
+          docId: document.metadata.doc_id,
+          idempotencyKey: input.idempotency_key,
+          payload: input.blob_url ? { blob_url: input.blob_url } : {}
+        });
+        if (queued.created) {
+          await restartIngestion(client, tenant_id, queued.job.doc_id, queued.job.id);
         }
-      } else if (blob_url) {
-        const resp = await fetch(blob_url);
-        if (!resp.ok) throw new Error(`Failed to fetch blob_url: ${resp.status}`);
-        const ab = await resp.arrayBuffer();
-        fileBuffer = ab;
-      }
-      
-      if (!fileBuffer) {
-        throw new Error(`File not found in blob storage: ${blobPath}`);
       }
       
-      // Extract text
-      const rawText = await extractText(
-        Buffer.from(fileBuffer),
-        metadata.original_filename,
-        metadata.mimetype
-      );
-      
-      // Clean text
-      const cleanedText = cleanText(rawText);
-      
-      if (!cleanedText.trim()) {
-        throw new Error('No text content extracted from document');
+      const workerId = context.awsRequestId || randomUUID();
+      let processed: ProcessedJob[];
+      if (input.all_tenants) {
+        if (authResult.auth.role !== 'admin') {
+          return {
+            statusCode: 403,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            },
+            body: JSON.stringify({ success: false, error: 'Draining every tenant requires the admin role' })
+          };
+        }
+        processed = await drainAllTenants(client, workerId);
+      } else {
+        processed = await drainQueue(client, tenant_id, workerId);
       }
       
-      // Chunk text
-      const chunks = chunkText(cleanedText);
-      
-      console.log(`Generated ${chunks.length} chunks for document ${doc_id}`);
-      
-      // Process embeddings in batches with caching and retry logic
-      await processEmbeddingsBatch(chunks, client, dbDocId);
-      
-      // Update document status to READY
-      await client.query(
-        'UPDATE rag.documents SET content = $1, metadata = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
-        [
-          cleanedText.substring(0, 10000), // Store first 10k chars as preview
-          JSON.stringify({ 
-            ...metadata, 
-            status: 'READY',
-            chunks_count: chunks.length,
-            total_tokens: chunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0),
-            processed_at: new Date().toISOString()
-          }),
-          dbDocId
-        ]
-      );
-      
-      console.log(`Successfully processed document ${doc_id} with ${chunks.length} chunks`);
-      
       return {
         statusCode: 200,
         headers: {
@@ -346,9 +828,8 @@ export const handler: Handler = async (event, context) => {
         },
         body: JSON.stringify({
           success: true,
-          doc_id,
-          chunks_processed: chunks.length,
-          status: 'READY'
+          job: queued && { job_id: queued.job.id, doc_id: queued.job.doc_id, created: queued.created },
+          processed
         })
       };
       
@@ -359,30 +840,6 @@ export const handler: Handler = async (event, context) => {
   } catch (error) {
     console.error('Ingestion error:', error);
     
-    // Try to update document status to ERROR if possible
-    try {
-      const client = new Client({
-        connectionString: process.env.NETLIFY_DATABASE_URL,
-        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
-      });
-      
-      await client.connect();
-      
-      const input: IngestInput = JSON.parse(event.body || '{}');
-      if (input.doc_id) {
-        await client.query(`
-          UPDATE rag.documents 
-          SET metadata = jsonb_set(metadata, '{status}', '"ERROR"'),
-              updated_at = CURRENT_TIMESTAMP
-          WHERE metadata->>'doc_id' = $1
-        `, [input.doc_id]);
-      }
-      
-      await client.end();
-    } catch (dbError) {
-      console.error('Failed to update error status:', dbError);
-    }
-    
     return {
       statusCode: 500,
       headers: {
@@ -0,0 +1,125 @@
+import { Handler } from '@netlify/functions';
+import { getStore } from '@netlify/blobs';
+import { Client } from 'pg';
+import { createErrorResponse, ErrorCodes } from '../shared/utils';
+import { hasWorkerSecret } from '../shared/auth';
+import { setServiceScope } from '../shared/tenant';
+import {
+  maintenanceSettings,
+  requeueStuckIngestion,
+  deleteOrphanedRows,
+  deleteOrphanedBlobs,
+  rollUpUsage,
+  pruneRetrievalLogs,
+  tuneIvfflatIndex
+} from '../shared/maintenance';
+import { expireUploadSessions } from '../shared/upload-sessions';
+import { wakeWorkerForAllTenants } from '../shared/ingest-queue';
+
+// Every run's report is kept under runs/{started_at}.json, and the latest also as latest.json
+const REPORT_STORE = 'maintenance-reports';
+
+interface StepReport {
+  ok: boolean;
+  duration_ms: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface MaintenanceReport {
+  started_at: string;
+  finished_at: string | null;     // null until the run ends; a run that was killed keeps null
+  current_step: string | null;    // the step running when the report was stored
+  ok: boolean;
+  settings: ReturnType<typeof maintenanceSettings>;
+  steps: Record<string, StepReport>;
+}
+
+// Stored before and after every step, so a run that is cut short still leaves a record of how far it got
+async function storeReport(report: MaintenanceReport): Promise<void> {
+  report.ok = Object.values(report.steps).every(step => step.ok);
+  try {
+    const store = getStore(REPORT_STORE);
+    await store.setJSON(`runs/${report.started_at}.json`, report);
+    await store.setJSON('latest.json', report);
+  } catch (error) {
+    console.error('Failed to store maintenance report:', error);
+  }
+}
+
+// Steps are independent; one failing is reported and the rest still run
+async function runStep(report: MaintenanceReport, name: string, step: () => Promise<unknown>): Promise<void> {
+  report.current_step = name;
+  await storeReport(report);
+
+  const started = Date.now();
+  try {
+    report.steps[name] = { ok: true, duration_ms: 0, result: await step() };
+  } catch (error) {
+    console.error(`Maintenance step ${name} failed:`, error);
+    report.steps[name] = { ok: false, duration_ms: 0, error: error instanceof Error ? error.message : String(error) };
+  }
+  report.steps[name].duration_ms = Date.now() - started;
+
+  report.current_step = null;
+  await storeReport(report);
+}
+
+// Deployed as maintenance-background and started nightly by scheduled/nightly-maintenance.ts with the
+// worker secret. Usage is rolled up before old retrieval logs are pruned, and the vector index, the
+// slowest step, is retuned last.
+export const handler: Handler = async (event, context) => {
+  if (!hasWorkerSecret(event)) {
+    return createErrorResponse(401, 'Maintenance runs are started by the nightly schedule', ErrorCodes.UNAUTHORIZED);
+  }
+
+  const settings = maintenanceSettings();
+  const report: MaintenanceReport = {
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    current_step: null,
+    ok: true,
+    settings,
+    steps: {}
+  };
+
+  const client = new Client({
+    connectionString: process.env.NETLIFY_DATABASE_URL,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  });
+
+  try {
+    await client.connect();
+    await setServiceScope(client);
+
+    await runStep(report, 'requeue_stuck_ingestion', () => requeueStuckIngestion(client, settings.stuckIngestionMinutes));
+    // Nobody else wakes the worker for requeued jobs; this also picks up jobs whose own kick failed
+    await runStep(report, 'wake_ingest_worker', async () => {
+      await wakeWorkerForAllTenants();
+      return { woken: true };
+    });
+    await runStep(report, 'orphaned_rows', () => deleteOrphanedRows(client, settings.stuckIngestionMinutes));
+    await runStep(report, 'orphaned_blobs', () => deleteOrphanedBlobs(client));
+    await runStep(report, 'upload_sessions', () => expireUploadSessions(client));
+    await runStep(report, 'usage_rollup', () => rollUpUsage(client, settings.retrievalLogRetentionDays));
+    if (report.steps.usage_rollup.ok) {
+      await runStep(report, 'prune_retrieval_logs', () => pruneRetrievalLogs(client, settings.retrievalLogRetentionDays));
+    }
+    await runStep(report, 'ivfflat_index', () => tuneIvfflatIndex(client));
+  } catch (error) {
+    console.error('Maintenance could not connect:', error);
+    report.steps.connect = { ok: false, duration_ms: 0, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await client.end().catch(() => {});
+  }
+
+  report.finished_at = new Date().toISOString();
+  await storeReport(report);
+
+  console.log('Maintenance report:', JSON.stringify(report));
+
+  return {
+    statusCode: report.ok ? 200 : 500,
+    body: JSON.stringify(report)
+  };
+};
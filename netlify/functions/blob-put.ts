@@ -1,5 +1,6 @@
 import { Handler } from '@netlify/functions';
 import { getStore } from '@netlify/blobs';
+import { authenticate } from './shared/auth';
 
 export const handler: Handler = async (event, context) => {
   if (event.httpMethod !== 'POST') {
@@ -8,7 +9,7 @@ export const handler: Handler = async (event, context) => {
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
       },
       body: JSON.stringify({ error: 'Method not allowed' })
@@ -24,22 +25,39 @@ export const handler: Handler = async (event, context) => {
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
           'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
         },
         body: JSON.stringify({ error: 'Missing key or value' })
       };
     }
 
+    // Teacher artifacts are only writable by staff
+    const authResult = await authenticate(event, ['teacher', 'admin']);
+    if (!authResult.success) {
+      return {
+        statusCode: authResult.statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+        },
+        body: JSON.stringify(authResult.error)
+      };
+    }
+    const tenantId = authResult.auth.tenantId;
+
     const store = getStore('teacher-artifacts');
-    await store.set(key, value);
+    // Keys are namespaced per tenant; callers only ever see their own
+    await store.set(`${tenantId}/${key}`, value);
 
     return {
       statusCode: 200,
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
       },
       body: JSON.stringify({ stored: key })
@@ -50,7 +68,7 @@ export const handler: Handler = async (event, context) => {
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
       },
       body: JSON.stringify({ error: 'Internal server error' })
@@ -1,18 +1,21 @@
 import { Handler } from '@netlify/functions';
 import { Client } from 'pg';
-import { createErrorResponse, ErrorCodes, checkRateLimit, getClientIP } from './shared/utils';
+import { createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { runMigrations, MigrationLockedError, MigrationChecksumError } from './shared/migrator';
 
 export const handler: Handler = async (event, context) => {
   if (event.httpMethod !== 'POST') {
     return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
   }
 
-  // Rate limiting
-  const clientIP = getClientIP(event);
-  const rateLimitResult = checkRateLimit(clientIP);
-  if (!rateLimitResult.allowed) {
-    return createErrorResponse(429, rateLimitResult.error.error, rateLimitResult.error.code, rateLimitResult.error.details);
+  // Schema changes affect every tenant. Not rate limited: the buckets live in a table this may be
+  // about to create, and concurrent runs are already serialized by the migration lock.
+  const authResult = await authenticate(event, ['admin']);
+  if (!authResult.success) {
+    return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
   }
+  console.log(`Migration requested by ${authResult.auth.userId}`);
 
   const client = new Client({
     connectionString: process.env.NETLIFY_DATABASE_URL,
@@ -22,104 +25,21 @@ export const handler: Handler = async (event, context) => {
   try {
     await client.connect();
 
-    // Create schemas if they don't exist
-    await client.query('CREATE SCHEMA IF NOT EXISTS core');
-    await client.query('CREATE SCHEMA IF NOT EXISTS rag');
-
-    // Enable vector extension
-    await client.query('CREATE EXTENSION IF NOT EXISTS vector');
-
-    // Create core.users table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS core.users (
-        id SERIAL PRIMARY KEY,
-        email VARCHAR(255) UNIQUE NOT NULL,
-        name VARCHAR(255) NOT NULL,
-        role VARCHAR(50) DEFAULT 'student',
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create rag.documents table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS rag.documents (
-        id SERIAL PRIMARY KEY,
-        title VARCHAR(500) NOT NULL,
-        content TEXT NOT NULL,
-        embedding VECTOR(1536),
-        metadata JSONB DEFAULT '{}',
-        source_url VARCHAR(1000),
-        document_type VARCHAR(100) DEFAULT 'text',
-        created_by INTEGER REFERENCES core.users(id),
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create rag.embeddings table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS rag.embeddings (
-        id SERIAL PRIMARY KEY,
-        document_id INTEGER REFERENCES rag.documents(id) ON DELETE CASCADE,
-        chunk_index INTEGER NOT NULL,
-        content TEXT NOT NULL,
-        content_hash VARCHAR(64) UNIQUE,
-        embedding VECTOR(1536),
-        token_count INTEGER,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create rag.retrieval_logs table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS rag.retrieval_logs (
-        id SERIAL PRIMARY KEY,
-        request_id VARCHAR(36) UNIQUE NOT NULL,
-        query_text TEXT NOT NULL,
-        chunk_ids INTEGER[] NOT NULL,
-        latency_ms INTEGER NOT NULL,
-        doc_id VARCHAR(255),
-        top_k INTEGER DEFAULT 5,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create indexes for better performance
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_embeddings_document_id 
-      ON rag.embeddings(document_id)
-    `);
-
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_embeddings_embedding 
-      ON rag.embeddings USING ivfflat (embedding vector_cosine_ops)
-      WITH (lists = 100)
-    `);
-
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_embeddings_content_hash 
-      ON rag.embeddings(content_hash)
-    `);
-
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_documents_created_by 
-      ON rag.documents(created_by)
-    `);
-
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_documents_document_type 
-      ON rag.documents(document_type)
-    `);
+    let body: { dry_run?: boolean } = {};
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(400, 'Invalid JSON in request body', ErrorCodes.VALIDATION_ERROR);
+    }
+    const dryRun = event.queryStringParameters?.dry_run === 'true' || body.dry_run === true;
 
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_retrieval_logs_request_id 
-      ON rag.retrieval_logs(request_id)
-    `);
+    const result = await runMigrations(client, { dryRun });
 
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_retrieval_logs_created_at 
-      ON rag.retrieval_logs(created_at)
+    const tablesResult = await client.query(`
+      SELECT table_schema || '.' || table_name AS name
+      FROM information_schema.tables
+      WHERE table_schema IN ('core', 'rag')
+      ORDER BY 1
     `);
 
     return {
@@ -131,15 +51,27 @@ export const handler: Handler = async (event, context) => {
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
       },
       body: JSON.stringify({ 
-        migrated: true,
-        message: 'Database migration completed successfully',
-        tables: ['core.users', 'rag.documents', 'rag.embeddings', 'rag.retrieval_logs']
+        migrated: !dryRun,
+        message: dryRun
+          ? `${result.pending.length} pending migration(s)`
+          : `Applied ${result.applied.length} migration(s); ${result.already_applied} already applied`,
+        ...result,
+        tables: tablesResult.rows.map(row => row.name)
       })
     };
 
   } catch (error) {
     console.error('Migration error:', error);
     
+    if (error instanceof MigrationLockedError) {
+      return createErrorResponse(409, error.message, ErrorCodes.MIGRATION_IN_PROGRESS);
+    }
+    if (error instanceof MigrationChecksumError) {
+      return createErrorResponse(409, error.message, ErrorCodes.MIGRATION_CHECKSUM_MISMATCH, {
+        versions: error.versions
+      });
+    }
+    
     let errorCode: string = ErrorCodes.DATABASE_ERROR;
     let errorMessage = 'Database migration failed';
     
@@ -0,0 +1,102 @@
+import { Handler } from '@netlify/functions';
+import { getStore } from '@netlify/blobs';
+import { Client } from 'pg';
+import { z } from 'zod';
+import { createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope } from './shared/tenant';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse, RateLimitDecision } from './shared/rate-limit';
+import { EXTRACTED_STORE, ArtifactKind, ExtractedArtifacts } from './shared/artifacts';
+
+const ArtifactSchema = z.enum(['text', 'structure']).default('text');
+
+const CONTENT_TYPES: Record<ArtifactKind, string> = {
+  text: 'text/plain; charset=utf-8',
+  structure: 'application/json'
+};
+
+// Download a document's extracted text (?artifact=text, the default) or its structure sidecar (?artifact=structure)
+export const handler: Handler = async (event, context) => {
+  if (event.httpMethod !== 'GET') {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    const authResult = await authenticate(event);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenantId = authResult.auth.tenantId;
+
+    const doc_id = event.queryStringParameters?.doc_id;
+    const parsedArtifact = ArtifactSchema.safeParse(event.queryStringParameters?.artifact || undefined);
+
+    if (!doc_id) {
+      return createErrorResponse(400, 'Missing doc_id parameter', ErrorCodes.MISSING_REQUIRED_FIELD);
+    }
+    if (!parsedArtifact.success) {
+      return createErrorResponse(400, 'artifact must be "text" or "structure"', ErrorCodes.VALIDATION_ERROR, {
+        artifact: event.queryStringParameters?.artifact
+      });
+    }
+    const artifact: ArtifactKind = parsedArtifact.data;
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    let pointers: ExtractedArtifacts | undefined;
+    let rateLimit: RateLimitDecision;
+    try {
+      await setTenantScope(client, tenantId);
+
+      rateLimit = await consumeRateLimit(client, tenantId, 'doc-extracted');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('doc-extracted', rateLimit);
+      }
+
+      // Other tenants' documents are reported as not found
+      const result = await client.query(
+        'SELECT metadata FROM rag.documents WHERE metadata->>\'doc_id\' = $1 AND tenant_id = $2',
+        [doc_id, tenantId]
+      );
+      if (result.rows.length === 0) {
+        return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id });
+      }
+      pointers = result.rows[0].metadata.extracted;
+    } finally {
+      await client.end();
+    }
+
+    if (!pointers) {
+      return createErrorResponse(409, 'Text has not been extracted from this document yet', ErrorCodes.INVALID_STATE, { doc_id });
+    }
+
+    const key = artifact === 'text' ? pointers.text_key : pointers.structure_key;
+    const body = await getStore(EXTRACTED_STORE).get(key);
+    if (body === null) {
+      return createErrorResponse(404, 'Extracted artifact not found', ErrorCodes.NOT_FOUND, { doc_id, artifact });
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[artifact],
+        'Content-Disposition': `attachment; filename="${doc_id}-${key.split('/').pop()}"`,
+        'Access-Control-Allow-Origin': '*',
+        'X-Text-SHA256': pointers.text_sha256,
+        ...rateLimitHeaders(rateLimit)
+      },
+      body
+    };
+
+  } catch (error) {
+    console.error('Extracted artifact error:', error);
+    return createErrorResponse(500, 'Failed to load extracted artifact', ErrorCodes.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
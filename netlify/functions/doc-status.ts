@@ -1,5 +1,10 @@
 import { HandlerEvent, HandlerContext, HandlerResponse } from '@netlify/functions';
 import { Client } from 'pg';
+import { createErrorResponse } from './shared/utils';
+import { setTenantScope } from './shared/tenant';
+import { authenticate } from './shared/auth';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse } from './shared/rate-limit';
+import { ingestionState, describeStatus } from './shared/ingest-status';
 
 export const handler = async (event: HandlerEvent, context: HandlerContext): Promise<HandlerResponse> => {
   if (event.httpMethod !== 'GET') {
@@ -8,7 +13,7 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
       },
       body: JSON.stringify({ error: 'Method not allowed' })
@@ -16,6 +21,12 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
   }
 
   try {
+    const authResult = await authenticate(event);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenantId = authResult.auth.tenantId;
+
     const doc_id = event.queryStringParameters?.doc_id;
     
     if (!doc_id) {
@@ -37,17 +48,28 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     await client.connect();
     
     try {
+      await setTenantScope(client, tenantId);
+
+      const rateLimit = await consumeRateLimit(client, tenantId, 'doc-status');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('doc-status', rateLimit);
+      }
+
+      // Other tenants' documents are reported as not found
       const result = await client.query(`
         SELECT 
           id,
+          tenant_id,
           title,
           metadata,
           created_at,
           updated_at,
-          (SELECT COUNT(*) FROM rag.embeddings WHERE document_id = rag.documents.id) as chunks_count
+          active_index_version,
+          (SELECT COUNT(*) FROM rag.chunks
+            WHERE doc_id = rag.documents.id AND index_version = rag.documents.active_index_version) as chunks_count
         FROM rag.documents 
-        WHERE metadata->>'doc_id' = $1
-      `, [doc_id]);
+        WHERE metadata->>'doc_id' = $1 AND tenant_id = $2
+      `, [doc_id, tenantId]);
 
       if (result.rows.length === 0) {
         return {
@@ -62,27 +84,78 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
 
       const document = result.rows[0];
       const metadata = document.metadata;
+      const status = metadata.status || 'UNKNOWN';
+      const ingestion = ingestionState(metadata);
+
+      // Latest ingestion job, for attempts and the next retry
+      const jobResult = await client.query(`
+        SELECT id, status, attempts, max_attempts, run_after, last_error, created_at, completed_at
+        FROM rag.ingest_jobs
+        WHERE doc_id = $1 AND tenant_id = $2
+        ORDER BY id DESC
+        LIMIT 1
+      `, [doc_id, tenantId]);
+      const job = jobResult.rows[0];
+
+      // The live index and any version being built to replace it
+      const indexResult = await client.query(`
+        SELECT version, status, embedding_model, chunk_max_tokens, chunk_overlap_tokens, chunks_count, created_at, activated_at
+        FROM rag.index_versions
+        WHERE doc_id = $1 AND status IN ('active', 'building')
+        ORDER BY version
+      `, [document.id]);
+      const activeIndex = indexResult.rows.find(row => row.status === 'active');
+      const buildingIndex = indexResult.rows.find(row => row.status === 'building');
       
       return {
         statusCode: 200,
         headers: {
           'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+          'Access-Control-Allow-Origin': '*',
+          ...rateLimitHeaders(rateLimit)
         },
         body: JSON.stringify({
           doc_id,
           db_id: document.id,
           title: document.title,
-          status: metadata.status || 'UNKNOWN',
+          status,
+          status_text: describeStatus(status, ingestion.progress),
+          progress: ingestion.progress ? {
+            ...ingestion.progress,
+            percent: ingestion.progress.total > 0
+              ? Math.round((ingestion.progress.embedded / ingestion.progress.total) * 100)
+              : 100
+          } : null,
+          error: ingestion.error,
+          // Pages and chunks left out of a READY_WITH_WARNINGS document; POST /api/ingest-retry re-runs them
+          warnings: ingestion.warnings ?? { failed_pages: [], failed_chunks: [] },
+          stages: ingestion.stages,
+          job: job ? {
+            job_id: Number(job.id),
+            status: job.status,
+            attempts: job.attempts,
+            max_attempts: job.max_attempts,
+            next_attempt_at: job.status === 'queued' ? job.run_after : null,
+            last_error: job.last_error,
+            created_at: job.created_at,
+            completed_at: job.completed_at
+          } : null,
+          index: {
+            active_version: document.active_index_version,
+            active: activeIndex ?? null,
+            building: buildingIndex ?? null
+          },
           chunks_count: parseInt(document.chunks_count) || 0,
           total_tokens: metadata.total_tokens || 0,
           file_size: metadata.file_size || 0,
           original_filename: metadata.original_filename,
           document_type: metadata.document_type || 'unknown',
-          tenant_id: metadata.tenant_id,
+          tenant_id: document.tenant_id,
           created_at: document.created_at,
           updated_at: document.updated_at,
-          processed_at: metadata.processed_at
+          processed_at: metadata.processed_at,
+          // Full extracted text and structure; download from /api/doc-extracted
+          extracted: metadata.extracted ?? null
         })
       };
 
@@ -0,0 +1,239 @@
+import { Handler } from '@netlify/functions';
+import { Client } from 'pg';
+import { z } from 'zod';
+import { validateRequestBody, createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope } from './shared/tenant';
+import { isValidTeksCode, normalizeTeksCode } from './shared/teks';
+import { INGEST_STAGES } from './shared/ingest-status';
+import { deleteDocument, DELETING_STATUS } from './shared/documents';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse } from './shared/rate-limit';
+
+// Comma-separated query parameter, e.g. ?status=READY,READY_WITH_WARNINGS
+function commaList<T extends z.ZodTypeAny>(item: T) {
+  return z.string()
+    .transform(value => value.split(',').map(entry => entry.trim()).filter(Boolean))
+    .pipe(z.array(item).min(1).max(20));
+}
+
+const ListQuerySchema = z.object({
+  type: commaList(z.string().min(1).max(100)).optional(),
+  status: commaList(z.enum([...INGEST_STAGES, DELETING_STATUS])).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(25),
+  // id of the last document on the previous page
+  cursor: z.coerce.number().int().positive().optional()
+});
+
+const UpdateSchema = z.object({
+  title: z.string().trim().min(1).max(500).optional(),
+  document_type: z.string().trim().min(1).max(100).optional(),
+  teks: z.array(
+    z.string().refine(isValidTeksCode, code => ({ message: `Invalid TEKS code: ${code}` })).transform(normalizeTeksCode)
+  ).max(50).optional()
+}).strict().refine(update => Object.values(update).some(value => value !== undefined), {
+  message: 'Nothing to update: send title, document_type or teks'
+});
+
+type ListQuery = z.infer<typeof ListQuerySchema>;
+type DocumentUpdate = z.infer<typeof UpdateSchema>;
+
+const SUMMARY_COLUMNS = `
+  id,
+  metadata->>'doc_id' AS doc_id,
+  title,
+  document_type,
+  metadata->>'status' AS status,
+  teks_codes,
+  metadata->>'original_filename' AS original_filename,
+  (metadata->>'file_size')::bigint AS file_size,
+  file_sha256,
+  file_version,
+  metadata->>'uploaded_by' AS uploaded_by,
+  active_index_version,
+  created_at,
+  updated_at`;
+
+function toDocumentSummary(row: any) {
+  return {
+    doc_id: row.doc_id,
+    db_id: row.id,
+    title: row.title,
+    document_type: row.document_type,
+    status: row.status ?? 'UNKNOWN',
+    teks_codes: row.teks_codes ?? [],
+    original_filename: row.original_filename,
+    file_size: row.file_size === null ? null : Number(row.file_size),
+    file_sha256: row.file_sha256 ?? null,
+    file_version: row.file_version,
+    uploaded_by: row.uploaded_by,
+    active_index_version: row.active_index_version,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Newest first. Documents being deleted are hidden unless asked for by status.
+async function listDocuments(client: Client, tenantId: string, query: ListQuery) {
+  const conditions = ['tenant_id = $1'];
+  const params: unknown[] = [tenantId];
+
+  if (query.type) {
+    params.push(query.type);
+    conditions.push(`document_type = ANY($${params.length}::text[])`);
+  }
+  if (query.status) {
+    params.push(query.status);
+    conditions.push(`metadata->>'status' = ANY($${params.length}::text[])`);
+  } else {
+    params.push(DELETING_STATUS);
+    conditions.push(`metadata->>'status' IS DISTINCT FROM $${params.length}`);
+  }
+  if (query.q) {
+    params.push(`%${escapeLike(query.q)}%`);
+    conditions.push(`title ILIKE $${params.length}`);
+  }
+  if (query.cursor) {
+    params.push(query.cursor);
+    conditions.push(`id < $${params.length}`);
+  }
+  params.push(query.limit + 1);
+
+  const result = await client.query(`
+    SELECT ${SUMMARY_COLUMNS}
+    FROM rag.documents
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY id DESC
+    LIMIT $${params.length}
+  `, params);
+
+  const documents = result.rows.slice(0, query.limit).map(toDocumentSummary);
+  return {
+    documents,
+    next_cursor: result.rows.length > query.limit ? String(documents[documents.length - 1].db_id) : null
+  };
+}
+
+async function updateDocument(client: Client, tenantId: string, docId: string, update: DocumentUpdate) {
+  const assignments: string[] = [];
+  const params: unknown[] = [docId, tenantId];
+
+  if (update.title !== undefined) {
+    params.push(update.title);
+    assignments.push(`title = $${params.length}`);
+  }
+  if (update.document_type !== undefined) {
+    params.push(update.document_type);
+    assignments.push(`document_type = $${params.length}`);
+  }
+  if (update.teks !== undefined) {
+    params.push([...new Set(update.teks)]);
+    assignments.push(`teks_codes = $${params.length}::text[]`);
+  }
+
+  // Documents being deleted are left alone
+  params.push(DELETING_STATUS);
+  const result = await client.query(`
+    UPDATE rag.documents
+    SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+    WHERE metadata->>'doc_id' = $1 AND tenant_id = $2 AND metadata->>'status' IS DISTINCT FROM $${params.length}
+    RETURNING ${SUMMARY_COLUMNS}
+  `, params);
+
+  return result.rows[0] ? toDocumentSummary(result.rows[0]) : null;
+}
+
+// The tenant's document library.
+//   GET    ?type=&status=&q=&limit=&cursor=   list, newest first; q matches titles
+//   PATCH  ?doc_id=  { title?, document_type?, teks? }   update a document's metadata
+//   DELETE ?doc_id=   remove the document with its chunks, vectors and blobs; safe to repeat after a failure
+export const handler: Handler = async (event, context) => {
+  if (!['GET', 'PATCH', 'DELETE'].includes(event.httpMethod)) {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    // Anyone in the tenant may browse the library; only staff change it
+    const authResult = await authenticate(event, event.httpMethod === 'GET' ? undefined : ['teacher', 'admin']);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenantId = authResult.auth.tenantId;
+
+    let listQuery: ListQuery | undefined;
+    let update: DocumentUpdate | undefined;
+    const docId = event.queryStringParameters?.doc_id;
+
+    if (event.httpMethod === 'GET') {
+      const parsed = ListQuerySchema.safeParse(event.queryStringParameters ?? {});
+      if (!parsed.success) {
+        return createErrorResponse(400, 'Validation failed', ErrorCodes.VALIDATION_ERROR, parsed.error.issues);
+      }
+      listQuery = parsed.data;
+    } else if (!docId) {
+      return createErrorResponse(400, 'Missing doc_id parameter', ErrorCodes.MISSING_REQUIRED_FIELD);
+    } else if (event.httpMethod === 'PATCH') {
+      const validationResult = validateRequestBody(event.body, UpdateSchema);
+      if (!validationResult.success) {
+        return createErrorResponse(400, validationResult.error.error, validationResult.error.code, validationResult.error.details);
+      }
+      update = validationResult.data;
+    }
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    try {
+      await setTenantScope(client, tenantId);
+
+      const rateLimit = await consumeRateLimit(client, tenantId, 'documents');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('documents', rateLimit);
+      }
+
+      let body: unknown;
+      if (listQuery) {
+        body = await listDocuments(client, tenantId, listQuery);
+      } else if (update) {
+        const document = await updateDocument(client, tenantId, docId!, update);
+        if (!document) {
+          return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id: docId });
+        }
+        body = { document };
+      } else {
+        const deleted = await deleteDocument(client, tenantId, docId!);
+        if (!deleted) {
+          return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id: docId });
+        }
+        console.log(`Document ${docId} deleted by ${authResult.auth.userId}:`, JSON.stringify(deleted));
+        body = { deleted: true, ...deleted };
+      }
+
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          ...rateLimitHeaders(rateLimit)
+        },
+        body: JSON.stringify(body)
+      };
+    } finally {
+      await client.end();
+    }
+
+  } catch (error) {
+    console.error('Documents error:', error);
+    return createErrorResponse(500, 'Document request failed', ErrorCodes.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
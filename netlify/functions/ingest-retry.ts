@@ -0,0 +1,108 @@
+import { Handler } from '@netlify/functions';
+import { Client } from 'pg';
+import { createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope } from './shared/tenant';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse, RateLimitDecision } from './shared/rate-limit';
+import { enqueueIngestJob, wakeWorker } from './shared/ingest-queue';
+import { restartIngestion, ingestionState, hasWarnings } from './shared/ingest-status';
+
+// Re-run only the pages and chunks a READY_WITH_WARNINGS document is missing.
+// Documents that failed outright go through ingest-start again.
+export const handler: Handler = async (event, context) => {
+  if (event.httpMethod !== 'POST') {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    const authResult = await authenticate(event, ['teacher', 'admin']);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenant_id = authResult.auth.tenantId;
+
+    const { doc_id, idempotency_key } = JSON.parse(event.body || '{}');
+
+    if (!doc_id) {
+      return createErrorResponse(400, 'Missing doc_id', ErrorCodes.MISSING_REQUIRED_FIELD);
+    }
+
+    const idempotencyKey: string | undefined =
+      event.headers['idempotency-key'] || event.headers['Idempotency-Key'] || idempotency_key || undefined;
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    let queued;
+    let rateLimit: RateLimitDecision;
+    let warnings;
+    try {
+      await setTenantScope(client, tenant_id);
+
+      rateLimit = await consumeRateLimit(client, tenant_id, 'ingest');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('ingest', rateLimit);
+      }
+
+      const docResult = await client.query(
+        'SELECT id, metadata FROM rag.documents WHERE metadata->>\'doc_id\' = $1 AND tenant_id = $2',
+        [doc_id, tenant_id]
+      );
+      if (docResult.rows.length === 0) {
+        return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id });
+      }
+
+      const metadata = docResult.rows[0].metadata;
+      warnings = ingestionState(metadata).warnings;
+      if (metadata.status !== 'READY_WITH_WARNINGS' || !hasWarnings(warnings)) {
+        return createErrorResponse(409, 'Document has no failed pages or chunks to retry', ErrorCodes.INVALID_STATE, {
+          doc_id,
+          status: metadata.status
+        });
+      }
+
+      queued = await enqueueIngestJob(client, {
+        tenantId: tenant_id,
+        docId: doc_id,
+        idempotencyKey,
+        payload: { mode: 'retry_failed' }
+      });
+      if (queued.created) {
+        await restartIngestion(client, tenant_id, doc_id, queued.job.id);
+      }
+    } finally {
+      await client.end();
+    }
+
+    await wakeWorker(event.headers['authorization'] || event.headers['Authorization'] || '', tenant_id);
+
+    return {
+      statusCode: 202,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...rateLimitHeaders(rateLimit)
+      },
+      body: JSON.stringify({
+        success: true,
+        message: queued.created ? 'Retry queued' : 'Ingestion already queued',
+        doc_id,
+        job_id: queued.job.id,
+        job_status: queued.job.status,
+        created: queued.created,
+        failed_pages: warnings!.failed_pages.map(failure => failure.page),
+        failed_chunks: warnings!.failed_chunks.map(failure => failure.chunk_index)
+      })
+    };
+
+  } catch (error) {
+    console.error('Ingest retry error:', error);
+    return createErrorResponse(500, 'Failed to queue retry', ErrorCodes.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
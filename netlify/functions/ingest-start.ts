@@ -0,0 +1,99 @@
+import { Handler } from '@netlify/functions';
+import { Client } from 'pg';
+import { createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope } from './shared/tenant';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse, RateLimitDecision } from './shared/rate-limit';
+import { enqueueIngestJob, wakeWorker } from './shared/ingest-queue';
+import { restartIngestion } from './shared/ingest-status';
+
+export const handler: Handler = async (event, context) => {
+  if (event.httpMethod !== 'POST') {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    const authResult = await authenticate(event, ['teacher', 'admin']);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenant_id = authResult.auth.tenantId;
+
+    const { doc_id, idempotency_key } = JSON.parse(event.body || '{}');
+
+    if (!doc_id) {
+      return createErrorResponse(400, 'Missing doc_id', ErrorCodes.MISSING_REQUIRED_FIELD);
+    }
+
+    // Retried requests with the same key get the original job back
+    const idempotencyKey: string | undefined =
+      event.headers['idempotency-key'] || event.headers['Idempotency-Key'] || idempotency_key || undefined;
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    let queued;
+    let rateLimit: RateLimitDecision;
+    try {
+      await setTenantScope(client, tenant_id);
+
+      rateLimit = await consumeRateLimit(client, tenant_id, 'ingest');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('ingest', rateLimit);
+      }
+
+      const docResult = await client.query(
+        'SELECT id FROM rag.documents WHERE metadata->>\'doc_id\' = $1 AND tenant_id = $2',
+        [doc_id, tenant_id]
+      );
+      if (docResult.rows.length === 0) {
+        return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id });
+      }
+
+      queued = await enqueueIngestJob(client, { tenantId: tenant_id, docId: doc_id, idempotencyKey });
+      if (queued.created) {
+        await restartIngestion(client, tenant_id, doc_id, queued.job.id);
+      }
+    } finally {
+      await client.end();
+    }
+
+    await wakeWorker(event.headers['authorization'] || event.headers['Authorization'] || '', tenant_id);
+
+    return {
+      statusCode: 202,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...rateLimitHeaders(rateLimit)
+      },
+      body: JSON.stringify({
+        success: true,
+        message: queued.created ? 'Ingestion queued' : 'Ingestion already queued',
+        doc_id,
+        job_id: queued.job.id,
+        job_status: queued.job.status,
+        attempts: queued.job.attempts,
+        created: queued.created
+      })
+    };
+
+  } catch (error) {
+    console.error('Ingest start error:', error);
+    return {
+      statusCode: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      body: JSON.stringify({
+        error: 'Failed to start ingestion',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    };
+  }
+};
@@ -0,0 +1 @@
+export { handler } from './background/maintenance';
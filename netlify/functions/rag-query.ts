@@ -1,19 +1,93 @@
-import { Handler, HandlerEvent, HandlerContext, HandlerResponse } from '@netlify/functions';
+import { stream, HandlerEvent, HandlerContext, StreamingResponse } from '@netlify/functions';
 import { Client } from 'pg';
-import OpenAI from 'openai';
 import { randomUUID } from 'crypto';
 import { z } from 'zod';
-import { validateRequestBody, createErrorResponse, ErrorCodes, checkRateLimit, getClientIP } from './shared/utils';
+import { validateRequestBody, createErrorResponse, ErrorCodes } from './shared/utils';
+import { setTenantScope } from './shared/tenant';
+import { authenticate } from './shared/auth';
+import { searchChunks, ChunkResult, SearchFilters, QueryEmbedding, DEFAULT_RRF_K } from './shared/retrieval';
+import { isValidTeksCode, normalizeTeksCode } from './shared/teks';
+import { getProvider, LLMProvider, ChatMessage, ChatUsage } from './shared/llm';
+import { packContext, renderContext, contextBudgetForModel, formatPages, PackedContext } from './shared/context-packer';
+import { verifyAnswer, VerificationMethod } from './shared/verifier';
+import { buildCitations } from './shared/citations';
+import { activeEmbeddingModels } from './shared/index-versions';
+import { countTokens } from './shared/chunker';
+import {
+  consumeRateLimit,
+  rateLimitHeaders,
+  rateLimitedResponse,
+  checkTokenQuota,
+  tokenQuotaHeaders,
+  quotaExceededResponse,
+  recordTokenUsage
+} from './shared/rate-limit';
+
+// Inclusive numeric range; either end may be omitted
+const RangeSchema = z.object({
+  from: z.number().int().min(0).optional(),
+  to: z.number().int().min(0).optional()
+}).refine(range => range.from === undefined || range.to === undefined || range.from <= range.to, {
+  message: 'from must not be greater than to'
+});
+
+const FiltersSchema = z.object({
+  doc_ids: z.array(z.string().min(1)).min(1).max(50).optional(),
+  document_type: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(20)]).optional(),
+  section_range: RangeSchema.optional(),
+  page_range: RangeSchema.optional(),
+  teks: z.array(
+    z.string().refine(isValidTeksCode, code => ({ message: `Invalid TEKS code: ${code}` })).transform(normalizeTeksCode)
+  ).min(1).max(20).optional(),
+  uploaded_after: z.coerce.date().optional(),
+  uploaded_before: z.coerce.date().optional()
+}).strict();
 
 // Zod schema for input validation
 const QueryInputSchema = z.object({
   prompt: z.string().min(1, 'Prompt cannot be empty').max(2000, 'Prompt too long'),
   doc_id: z.string().optional(),
-  top_k: z.number().int().min(1).max(20).optional().default(5)
+  top_k: z.number().int().min(1).max(20).optional().default(5),
+  // vector: embeddings only; keyword: full-text only; hybrid: both, merged by reciprocal rank fusion
+  mode: z.enum(['vector', 'keyword', 'hybrid']).optional().default('hybrid'),
+  weights: z.object({
+    vector: z.number().min(0).max(10).optional().default(1),
+    keyword: z.number().min(0).max(10).optional().default(1)
+  }).refine(w => w.vector > 0 || w.keyword > 0, 'At least one weight must be positive')
+    .optional()
+    .default({}),
+  rrf_k: z.number().int().min(1).max(1000).optional().default(DEFAULT_RRF_K),
+  filters: FiltersSchema.optional(),
+  // Lower the model's context budget for retrieved text
+  max_context_tokens: z.number().int().min(200).max(16000).optional(),
+  // Check the answer's citations against the passages: lexical overlap, or a second model pass
+  verify: z.enum(['lexical', 'llm']).optional()
+}).refine(input => !input.doc_id || !input.filters?.doc_ids || input.filters.doc_ids.includes(input.doc_id), {
+  message: 'doc_id must be one of filters.doc_ids when both are sent',
+  path: ['doc_id']
 });
 
 type QueryInput = z.infer<typeof QueryInputSchema>;
 
+// Map validated input onto search filters. The legacy doc_id narrows the search to that document,
+// including when doc_ids is also sent (the schema requires it to be one of them).
+function toSearchFilters(input: QueryInput): SearchFilters | undefined {
+  const filters = input.filters;
+  const docIds = input.doc_id ? [input.doc_id] : filters?.doc_ids ?? [];
+  if (!filters && docIds.length === 0) return undefined;
+
+  const documentType = filters?.document_type;
+  return {
+    doc_ids: docIds.length > 0 ? docIds : undefined,
+    document_types: documentType === undefined ? undefined : ([] as string[]).concat(documentType),
+    section_range: filters?.section_range,
+    page_range: filters?.page_range,
+    teks: filters?.teks,
+    uploaded_after: filters?.uploaded_after,
+    uploaded_before: filters?.uploaded_before
+  };
+}
+
 interface QueryResponse {
   request_id: string;
   chunks: ChunkResult[];
@@ -22,27 +96,10 @@ interface QueryResponse {
   latency_ms?: number;
 }
 
-interface ChunkResult {
-  id: number;
-  content: string;
-  chunk_index: number;
-  similarity: number;
-  document_title?: string;
-}
-
-// Initialize OpenAI client (lazy initialization)
-function getOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
-
 // Log retrieval to database
 async function logRetrieval(
   client: Client,
+  tenantId: string,
   requestId: string,
   queryText: string,
   chunkIds: number[],
@@ -52,108 +109,68 @@ async function logRetrieval(
 ): Promise<void> {
   try {
     await client.query(`
-      INSERT INTO rag.retrieval_logs (request_id, query_text, chunk_ids, latency_ms, doc_id, top_k)
-      VALUES ($1, $2, $3, $4, $5, $6)
-    `, [requestId, queryText, chunkIds, latencyMs, docId, topK]);
+      INSERT INTO rag.retrieval_logs (tenant_id, request_id, query_text, chunk_ids, latency_ms, doc_id, top_k)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [tenantId, requestId, queryText, chunkIds, latencyMs, docId, topK]);
   } catch (error) {
     console.error('Failed to log retrieval:', error);
     // Don't throw - logging failure shouldn't break the query
   }
 }
 
-// Get embedding for query
-async function getQueryEmbedding(query: string): Promise<number[]> {
-  const client = getOpenAIClient();
-  const response = await client.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: query,
-    encoding_format: 'float'
-  });
-  
-  return response.data[0].embedding;
-}
-
-// Perform vector similarity search
-async function vectorSearch(
-  client: Client, 
-  queryEmbedding: number[], 
-  docId?: string, 
-  topK: number = 5
-): Promise<ChunkResult[]> {
-  let query = `
-    SELECT 
-      e.id,
-      e.content,
-      e.chunk_index,
-      d.title as document_title,
-      1 - (e.embedding <=> $1) as similarity
-    FROM rag.embeddings e
-    JOIN rag.documents d ON e.document_id = d.id
-  `;
-  
-  const params: any[] = [`[${queryEmbedding.join(',')}]`];
-  
-  if (docId) {
-    query += ` WHERE d.metadata->>'doc_id' = $2`;
-    params.push(docId);
-  }
-  
-  query += ` ORDER BY e.embedding <=> $1 LIMIT $${params.length + 1}`;
-  params.push(topK);
-  
-  const result = await client.query(query, params);
-  
-  return result.rows.map(row => ({
-    id: row.id,
-    content: row.content,
-    chunk_index: row.chunk_index,
-    similarity: parseFloat(row.similarity),
-    document_title: row.document_title
-  }));
+// Chunk as shown to the client: truncated text, provenance and the citation it was packed under (null if dropped)
+function toChunkPreview(chunk: ChunkResult, packed: PackedContext) {
+  return {
+    id: chunk.id,
+    citation: packed.included.find(entry => entry.chunk_id === chunk.id)?.citation ?? null,
+    content: chunk.content.substring(0, 200) + '...', // Truncate for display
+    chunk_index: chunk.chunk_index,
+    similarity: chunk.similarity,
+    keyword_rank: chunk.keyword_rank,
+    score: chunk.score,
+    document_id: chunk.document_id,
+    document_title: chunk.document_title,
+    section: chunk.section,
+    pages: formatPages(chunk)
+  };
 }
 
-// Pack context with citations
-function packContextWithCitations(chunks: ChunkResult[]): string {
-  let context = "Based on the following information:\n\n";
-  
-  chunks.forEach((chunk, index) => {
-    const citationId = index + 1;
-    context += `[${citationId}] ${chunk.content}\n\n`;
-  });
-  
-  context += "Please answer the user's question using the information above. ";
-  context += "Include citations in your response using the format [1], [2], etc. ";
-  context += "If the information doesn't contain relevant details to answer the question, say so clearly.";
-  
-  return context;
+// What went into the prompt and what was left out
+function contextSummary(packed: PackedContext) {
+  return {
+    included: packed.included,
+    dropped: packed.dropped,
+    tokens_used: packed.tokens_used,
+    token_budget: packed.token_budget
+  };
 }
 
-export const handler = async (event: HandlerEvent, context: HandlerContext): Promise<HandlerResponse> => {
+async function ragQuery(event: HandlerEvent, context: HandlerContext): Promise<StreamingResponse> {
   if (event.httpMethod !== 'POST') {
     return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
   }
 
   try {
-    // Rate limiting
-    const clientIP = getClientIP(event);
-    const rateLimitResult = checkRateLimit(clientIP);
-    if (!rateLimitResult.allowed) {
-      return createErrorResponse(429, rateLimitResult.error.error, rateLimitResult.error.code, rateLimitResult.error.details);
-    }
-
     // Input validation
     const validationResult = validateRequestBody(event.body, QueryInputSchema);
     if (!validationResult.success) {
       return createErrorResponse(400, validationResult.error.error, validationResult.error.code, validationResult.error.details);
     }
 
-    const { prompt, doc_id, top_k } = validationResult.data;
+    const authResult = await authenticate(event);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenantId = authResult.auth.tenantId;
+
+    const { prompt, doc_id, top_k, mode, weights, rrf_k, max_context_tokens, verify } = validationResult.data;
+    const filters = toSearchFilters(validationResult.data);
 
     // Generate request ID and start timing
     const requestId = randomUUID();
     const startTime = Date.now();
 
-    console.log(`RAG query [${requestId}]: "${prompt}" ${doc_id ? `for doc ${doc_id}` : 'across all documents'}`);
+    console.log(`RAG query [${requestId}]: "${prompt}" ${doc_id ? `for doc ${doc_id}` : 'across all documents'}${filters ? ` with filters ${JSON.stringify(filters)}` : ''}`);
 
     // Connect to database
     const client = new Client({
@@ -164,25 +181,52 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     await client.connect();
     
     try {
-      // Get query embedding
-      console.log('Generating query embedding...');
-      const queryEmbedding = await getQueryEmbedding(prompt);
+      await setTenantScope(client, tenantId);
+
+      // Limits are per tenant, so they are checked once the caller is known
+      const rateLimit = await consumeRateLimit(client, tenantId, 'rag-query');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('rag-query', rateLimit);
+      }
+      const quota = await checkTokenQuota(client, tenantId);
+      if (!quota.allowed) {
+        return quotaExceededResponse(quota);
+      }
+      const limitHeaders = { ...rateLimitHeaders(rateLimit), ...tokenQuotaHeaders(quota) };
+
+      const provider = getProvider();
+
+      // Keyword-only search needs no embedding
+      let queryEmbeddings: QueryEmbedding[] | undefined;
+      if (mode !== 'keyword') {
+        console.log(`Generating query embedding (${provider.name})...`);
+        queryEmbeddings = await embedQuery(client, tenantId, prompt, provider);
+      }
       
-      // Perform vector search
-      console.log('Performing vector search...');
-      const chunks = await vectorSearch(client, queryEmbedding, doc_id, top_k);
+      console.log(`Performing ${mode} search...`);
+      const chunks = await searchChunks(client, {
+        tenantId,
+        mode,
+        queryText: prompt,
+        queryEmbeddings,
+        filters,
+        topK: top_k,
+        weights,
+        rrfK: rrf_k
+      });
       
       if (chunks.length === 0) {
         const latencyMs = Date.now() - startTime;
         
         // Log the query even if no chunks found
-        await logRetrieval(client, requestId, prompt, [], latencyMs, doc_id, top_k);
+        await logRetrieval(client, tenantId, requestId, prompt, [], latencyMs, doc_id, top_k);
         
         return {
           statusCode: 200,
           headers: {
             'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
+            'Access-Control-Allow-Origin': '*',
+            ...limitHeaders
           },
           body: JSON.stringify({
             request_id: requestId,
@@ -194,17 +238,22 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
         };
       }
       
-      // Pack context with citations
-      const contextWithCitations = packContextWithCitations(chunks);
+      // Pack as much of the ranked context as the model's budget allows
+      const tokenBudget = Math.min(contextBudgetForModel(provider.chatModel), max_context_tokens ?? Infinity);
+      const packed = packContext(chunks, tokenBudget);
+      const messages: ChatMessage[] = [
+        { role: 'system', content: renderContext(packed) },
+        { role: 'user', content: prompt }
+      ];
       
-      console.log(`Found ${chunks.length} relevant chunks, generating response...`);
+      console.log(`Found ${chunks.length} relevant chunks, packed ${packed.included.length} into ${packed.passages.length} passages (${packed.tokens_used}/${tokenBudget} tokens), generating response...`);
       
       // Calculate latency and log retrieval
       const latencyMs = Date.now() - startTime;
       const chunkIds = chunks.map(chunk => chunk.id);
       
       // Log the retrieval
-      await logRetrieval(client, requestId, prompt, chunkIds, latencyMs, doc_id, top_k);
+      await logRetrieval(client, tenantId, requestId, prompt, chunkIds, latencyMs, doc_id, top_k);
       
       // Check if client accepts Server-Sent Events
       const acceptsSSE = event.headers.accept?.includes('text/event-stream');
@@ -218,42 +267,42 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
             'Cache-Control': 'no-cache',
             'Connection': 'keep-alive',
             'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Headers': 'Content-Type, Accept',
-            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+            'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            ...limitHeaders
           },
-          body: await streamChatCompletion(contextWithCitations, prompt, chunks, requestId, latencyMs)
+          body: streamChatCompletion(provider, messages, chunks, packed, requestId, startTime, latencyMs,
+            usage => recordStreamedUsage(tenantId, usage), verify)
         };
       } else {
         // Return regular JSON response with non-streaming completion
-        const client = getOpenAIClient();
-        const completion = await client.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: contextWithCitations },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.1,
-          max_tokens: 1000
-        });
-        
-        const answer = completion.choices[0]?.message?.content || 'No response generated.';
+        const completion = await provider.chat(messages);
+        const answer = completion.content || 'No response generated.';
+        const { citations, unresolved_citations } = buildCitations(answer, packed, chunks);
+        const verification = verify
+          ? await verifyAnswer(answer, packed, { method: verify, provider })
+          : undefined;
+        const usage = totalUsage(completion.usage, verification?.usage ?? null);
+        if (usage) {
+          await recordTokenUsage(client, tenantId, usage.total_tokens);
+        }
         
         return {
           statusCode: 200,
           headers: {
             'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
+            'Access-Control-Allow-Origin': '*',
+            ...limitHeaders
           },
           body: JSON.stringify({
             request_id: requestId,
-            chunks: chunks.map(chunk => ({
-              id: chunk.id,
-              content: chunk.content.substring(0, 200) + '...', // Truncate for display
-              chunk_index: chunk.chunk_index,
-              similarity: chunk.similarity,
-              document_title: chunk.document_title
-            })),
+            chunks: chunks.map(chunk => toChunkPreview(chunk, packed)),
+            context: contextSummary(packed),
             answer,
+            citations,
+            unresolved_citations,
+            verification,
+            usage,
             streaming: false,
             latency_ms: latencyMs
           })
@@ -285,71 +334,170 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-};
+}
+
+// Vectors are stored per embedding model, so the prompt is embedded with every model the tenant's live
+// indexes were built with; documents stay searchable while a re-index moves them to a new model.
+// A tenant with nothing indexed yet gets the configured model.
+async function embedQuery(client: Client, tenantId: string, prompt: string, provider: LLMProvider): Promise<QueryEmbedding[]> {
+  const models = await activeEmbeddingModels(client, tenantId);
+  const embeddings: QueryEmbedding[] = [];
+  for (const model of models.length > 0 ? models : [provider.embeddingModel]) {
+    const modelProvider = model === provider.embeddingModel ? provider : getProvider({ embeddingModel: model });
+    const [embedding] = await modelProvider.embed([prompt]);
+    embeddings.push({ model, embedding });
+  }
+  return embeddings;
+}
+
+// For a stream cut short before the provider reported usage: the prompt plus what was generated so far
+function estimateUsage(messages: ChatMessage[], answer: string): ChatUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + countTokens(message.content), 0);
+  const completionTokens = countTokens(answer);
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+// Tokens the request spent: the answer plus the verifier model's check, when one ran
+function totalUsage(answer: ChatUsage | null, verifier: ChatUsage | null): ChatUsage | null {
+  if (!answer || !verifier) return answer ?? verifier;
+  return {
+    prompt_tokens: answer.prompt_tokens + verifier.prompt_tokens,
+    completion_tokens: answer.completion_tokens + verifier.completion_tokens,
+    total_tokens: answer.total_tokens + verifier.total_tokens
+  };
+}
+
+// The handler's connection is closed as soon as the stream is returned, so streamed usage is recorded on its own
+async function recordStreamedUsage(tenantId: string, usage: ChatUsage): Promise<void> {
+  const client = new Client({
+    connectionString: process.env.NETLIFY_DATABASE_URL,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  });
+  try {
+    await client.connect();
+    try {
+      await setTenantScope(client, tenantId);
+      await recordTokenUsage(client, tenantId, usage.total_tokens);
+    } finally {
+      await client.end();
+    }
+  } catch (error) {
+    console.error('Failed to record streamed token usage:', error);
+  }
+}
+
+const encoder = new TextEncoder();
 
-// Stream chat completion as SSE
-async function streamChatCompletion(
-  context: string, 
-  prompt: string, 
+// Encode one Server-Sent Event
+function sseEvent(data: Record<string, any>): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+// Stream metadata, chunk previews and completion tokens to the client as they are produced.
+// Citations, and verification when requested, are resolved on the finished answer before the end event.
+// With verification the usage event waits for it, so its totals include the verifier model's tokens.
+// Cancelling the stream (the browser went away) aborts the provider request. Usage is recorded
+// however the stream ends, estimated when the provider never reported it.
+function streamChatCompletion(
+  provider: LLMProvider,
+  messages: ChatMessage[],
   chunks: ChunkResult[],
+  packed: PackedContext,
   requestId: string,
-  latencyMs: number
-): Promise<string> {
-  try {
-    const client = getOpenAIClient();
-    const stream = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: context },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.1,
-      max_tokens: 1000,
-      stream: true
-    });
+  startTime: number,
+  latencyMs: number,
+  onUsage: (usage: ChatUsage) => Promise<void>,
+  verify?: VerificationMethod
+): ReadableStream<Uint8Array> {
+  const abortController = new AbortController();
 
-    let sseResponse = '';
-    
-    // Send metadata first
-    sseResponse += `data: ${JSON.stringify({
-      type: 'metadata',
-      request_id: requestId,
-      latency_ms: latencyMs
-    })}\n\n`;
-    
-    // Send chunks
-    sseResponse += `data: ${JSON.stringify({
-      type: 'chunks',
-      chunks: chunks.map(chunk => ({
-        id: chunk.id,
-        content: chunk.content.substring(0, 200) + '...',
-        chunk_index: chunk.chunk_index,
-        similarity: chunk.similarity,
-        document_title: chunk.document_title
-      }))
-    })}\n\n`;
-
-    // Stream the completion
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        sseResponse += `data: ${JSON.stringify({
-          type: 'token',
-          content
-        })}\n\n`;
+  async function pump(controller: ReadableStreamDefaultController<Uint8Array>): Promise<void> {
+    let answer = '';
+    let finishReason: string | null = null;
+    let usage: ChatUsage | null = null;
+
+    try {
+      controller.enqueue(sseEvent({
+        type: 'metadata',
+        request_id: requestId,
+        latency_ms: latencyMs
+      }));
+
+      controller.enqueue(sseEvent({
+        type: 'chunks',
+        chunks: chunks.map(chunk => toChunkPreview(chunk, packed)),
+        context: contextSummary(packed)
+      }));
+
+      for await (const event of provider.chatStream(messages, { signal: abortController.signal })) {
+        if (event.type === 'token') {
+          answer += event.content;
+          controller.enqueue(sseEvent({ type: 'token', content: event.content }));
+        } else {
+          finishReason = event.finishReason;
+          usage = event.usage;
+        }
+      }
+
+      const sendUsage = (total: ChatUsage) => controller.enqueue(sseEvent({
+        type: 'usage',
+        prompt_tokens: total.prompt_tokens,
+        completion_tokens: total.completion_tokens,
+        total_tokens: total.total_tokens
+      }));
+
+      if (usage && !verify) {
+        sendUsage(usage);
+      }
+
+      const { citations, unresolved_citations } = buildCitations(answer, packed, chunks);
+      controller.enqueue(sseEvent({ type: 'citations', citations, unresolved_citations }));
+
+      if (verify) {
+        const verification = await verifyAnswer(answer, packed, { method: verify, provider, signal: abortController.signal });
+        controller.enqueue(sseEvent({ type: 'verification', ...verification }));
+        usage = totalUsage(usage, verification.usage);
+        if (usage) {
+          sendUsage(usage);
+        }
+      }
+
+      controller.enqueue(sseEvent({
+        type: 'end',
+        request_id: requestId,
+        answer,
+        finish_reason: finishReason,
+        latency_ms: Date.now() - startTime
+      }));
+      controller.close();
+
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`Client disconnected [${requestId}], generation aborted after ${answer.length} characters`);
+        return;
       }
+      console.error('Streaming error:', error);
+      controller.enqueue(sseEvent({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Streaming failed'
+      }));
+      controller.close();
+    } finally {
+      // After the client has its answer, or has gone; a usage failure is logged, not streamed
+      await onUsage(usage ?? estimateUsage(messages, answer));
     }
-    
-    // Send end signal
-    sseResponse += `data: ${JSON.stringify({ type: 'end' })}\n\n`;
-    
-    return sseResponse;
-    
-  } catch (error) {
-    console.error('Streaming error:', error);
-    return `data: ${JSON.stringify({
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Streaming failed'
-    })}\n\n`;
   }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Not awaited: events must flow while generation is still running
+      void pump(controller);
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
 }
+
+// Streaming function: SSE bodies are flushed to the client as they are written
+export const handler = stream(ragQuery);
@@ -0,0 +1,185 @@
+import { Handler } from '@netlify/functions';
+import { Client } from 'pg';
+import { z } from 'zod';
+import { validateRequestBody, createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope, setServiceScope } from './shared/tenant';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse, RateLimitDecision } from './shared/rate-limit';
+import { enqueueIngestJob, wakeWorker } from './shared/ingest-queue';
+import { restartIngestion } from './shared/ingest-status';
+import { ReindexOptions } from './shared/index-versions';
+import { getProvider, embeddingDimensions, EMBEDDING_DIMENSIONS } from './shared/llm';
+
+const ReindexInputSchema = z.object({
+  scope: z.enum(['document', 'tenant', 'all']).optional().default('document'),
+  doc_id: z.string().min(1).optional(),
+  chunking: z.object({
+    max_tokens: z.number().int().min(100).max(2000).optional(),
+    overlap_tokens: z.number().int().min(0).max(500).optional()
+  }).optional(),
+  embedding_model: z.string().min(1).max(100).optional()
+}).refine(input => input.scope !== 'document' || input.doc_id, {
+  message: 'doc_id is required when scope is "document"',
+  path: ['doc_id']
+}).refine(input => (input.chunking?.overlap_tokens ?? 0) < (input.chunking?.max_tokens ?? Infinity), {
+  message: 'overlap_tokens must be smaller than max_tokens',
+  path: ['chunking', 'overlap_tokens']
+}).refine(input => !input.embedding_model || input.scope === 'all', {
+  // Queries embed the prompt once per model in use, so a model change moves every document, not a few
+  message: 'embedding_model can only be changed with scope "all"',
+  path: ['embedding_model']
+});
+
+type ReindexInput = z.infer<typeof ReindexInputSchema>;
+
+// Why the embedding model cannot be used for rag.embeddings, or null if it can
+async function embeddingModelProblem(model: string): Promise<{ error: string; details: Record<string, unknown> } | null> {
+  let dimensions: number;
+  try {
+    dimensions = await embeddingDimensions(getProvider({ embeddingModel: model }));
+  } catch (error) {
+    return {
+      error: 'embedding_model could not be used',
+      details: { embedding_model: model, message: error instanceof Error ? error.message : 'Unknown error' }
+    };
+  }
+  if (dimensions !== EMBEDDING_DIMENSIONS) {
+    return {
+      error: `embedding_model must produce ${EMBEDDING_DIMENSIONS}-dimension vectors`,
+      details: { embedding_model: model, dimensions, required: EMBEDDING_DIMENSIONS }
+    };
+  }
+  return null;
+}
+
+// Re-indexing more than one document is an administrative operation
+const SCOPE_ROLES = {
+  document: ['teacher', 'admin'],
+  tenant: ['admin'],
+  all: ['admin']
+} as const;
+
+// Rebuild the chunk index of one document, the caller's tenant, or every tenant. Each document is
+// queued as a reindex job: its stored extracted text is re-chunked and re-embedded into a new index
+// version, which replaces the live one only once complete. Settings left out keep each document's
+// current ones. The embedding model can only be changed for every document at once. Queries search each
+// document with the model of its live index, so documents stay searchable while they move; afterwards
+// set EMBEDDING_MODEL to match so new uploads are embedded with it too.
+export const handler: Handler = async (event, context) => {
+  if (event.httpMethod !== 'POST') {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    const validationResult = validateRequestBody(event.body, ReindexInputSchema);
+    if (!validationResult.success) {
+      return createErrorResponse(400, validationResult.error.error, validationResult.error.code, validationResult.error.details);
+    }
+    const input: ReindexInput = validationResult.data;
+
+    const authResult = await authenticate(event, [...SCOPE_ROLES[input.scope]]);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const tenantId = authResult.auth.tenantId;
+    console.log(`Reindex (${input.scope}) requested by ${authResult.auth.userId}`);
+
+    const payload: { mode: 'reindex' } & ReindexOptions = {
+      mode: 'reindex',
+      ...(input.chunking && { chunking: input.chunking }),
+      ...(input.embedding_model && { embedding_model: input.embedding_model })
+    };
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    const jobs: { tenant_id: string; doc_id: string; job_id: number; created: boolean }[] = [];
+    let rateLimit: RateLimitDecision;
+    try {
+      // Counted against the caller's tenant whatever the scope
+      await setTenantScope(client, tenantId);
+      rateLimit = await consumeRateLimit(client, tenantId, 'ingest');
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse('ingest', rateLimit);
+      }
+
+      // Checked before anything is queued: a model that fails or does not fit the vector column would
+      // fail every chunk of every document through all of its job's attempts
+      if (input.embedding_model) {
+        const problem = await embeddingModelProblem(input.embedding_model);
+        if (problem) {
+          return createErrorResponse(400, problem.error, ErrorCodes.VALIDATION_ERROR, problem.details);
+        }
+      }
+
+      let documents;
+      if (input.scope === 'all') {
+        await setServiceScope(client);
+        documents = await client.query(`
+          SELECT tenant_id, metadata->>'doc_id' AS doc_id FROM rag.documents
+          WHERE active_index_version IS NOT NULL
+          ORDER BY tenant_id, id
+        `);
+      } else {
+        documents = input.scope === 'tenant'
+          ? await client.query(`
+              SELECT tenant_id, metadata->>'doc_id' AS doc_id FROM rag.documents
+              WHERE tenant_id = $1 AND active_index_version IS NOT NULL
+              ORDER BY id
+            `, [tenantId])
+          : await client.query(
+              'SELECT tenant_id, metadata->>\'doc_id\' AS doc_id FROM rag.documents WHERE metadata->>\'doc_id\' = $1 AND tenant_id = $2',
+              [input.doc_id, tenantId]
+            );
+
+        if (input.scope === 'document' && documents.rows.length === 0) {
+          return createErrorResponse(404, 'Document not found', ErrorCodes.NOT_FOUND, { doc_id: input.doc_id });
+        }
+      }
+
+      // A document with a job already queued or running keeps that job
+      for (const document of documents.rows) {
+        const queued = await enqueueIngestJob(client, { tenantId: document.tenant_id, docId: document.doc_id, payload });
+        if (queued.created) {
+          await restartIngestion(client, document.tenant_id, document.doc_id, queued.job.id);
+        }
+        jobs.push({ tenant_id: document.tenant_id, doc_id: document.doc_id, job_id: queued.job.id, created: queued.created });
+      }
+    } finally {
+      await client.end();
+    }
+
+    if (jobs.length > 0) {
+      await wakeWorker(event.headers['authorization'] || event.headers['Authorization'] || '', tenantId, {
+        allTenants: input.scope === 'all'
+      });
+    }
+
+    return {
+      statusCode: 202,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...rateLimitHeaders(rateLimit)
+      },
+      body: JSON.stringify({
+        success: true,
+        scope: input.scope,
+        settings: { chunking: input.chunking ?? null, embedding_model: input.embedding_model ?? null },
+        queued: jobs.filter(job => job.created).length,
+        already_queued: jobs.filter(job => !job.created).length,
+        jobs
+      })
+    };
+
+  } catch (error) {
+    console.error('Reindex error:', error);
+    return createErrorResponse(500, 'Failed to queue reindex', ErrorCodes.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -1,10 +1,22 @@
 import { Handler } from '@netlify/functions';
+import { startBackgroundFunction } from '../shared/utils';
+import { WORKER_SECRET_HEADER } from '../shared/ingest-queue';
 
+// Scheduled functions are stopped after 30 seconds, far too little for the maintenance steps
+const MAINTENANCE_FUNCTION = 'maintenance-background';
+
+// Runs nightly (netlify.toml). Only starts the run: background/maintenance.ts does the work, with up to
+// 15 minutes, and stores its report as it goes.
 export const handler: Handler = async (event, context) => {
-  console.log('maintenance');
-  
+  const secret = process.env.INGEST_WORKER_SECRET;
+  if (!secret) {
+    console.error('INGEST_WORKER_SECRET is not set; nightly maintenance cannot be started');
+    return { statusCode: 500, body: JSON.stringify({ started: false, error: 'INGEST_WORKER_SECRET is not set' }) };
+  }
+
+  const started = await startBackgroundFunction(MAINTENANCE_FUNCTION, { [WORKER_SECRET_HEADER]: secret }, {});
   return {
-    statusCode: 200,
-    body: JSON.stringify({ message: 'Maintenance completed' })
+    statusCode: started ? 202 : 500,
+    body: JSON.stringify({ started })
   };
 };
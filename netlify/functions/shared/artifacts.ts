@@ -0,0 +1,137 @@
+import { getStore } from '@netlify/blobs';
+import { TextChunk } from './chunker';
+
+// Full extracted text and its structure, kept so documents can be re-chunked or
+// extraction debugged without fetching and parsing the original again
+export const EXTRACTED_STORE = 'extracted';
+
+export type ArtifactKind = 'text' | 'structure';
+
+const ARTIFACT_FILES: Record<ArtifactKind, string> = {
+  text: 'text.txt',
+  structure: 'structure.json'
+};
+
+// Same markers the chunker splits on
+const PAGE_BREAK = '\f';
+const HEADING_PATTERN = /^(#{1,3})\s+(.+)$/;
+
+export interface PageOffset {
+  page: number;        // 1-based
+  start: number;       // character offsets into text.txt; end is exclusive
+  end: number;
+}
+
+export interface SectionOffset {
+  title: string;
+  level: number;       // 1-3, from the heading marker
+  start: number;       // the heading line
+  end: number;         // where the next heading starts
+  page: number | null;
+}
+
+export interface ChunkSpan {
+  chunk_index: number;
+  start_token: number;
+  end_token: number;
+  section: string | null;
+  page_range: [number, number] | null;
+}
+
+export interface TextStructure {
+  text_sha256: string;
+  characters: number;
+  pages: PageOffset[];   // empty when the source has no page breaks
+  sections: SectionOffset[];
+  chunks: ChunkSpan[];
+}
+
+// Pointers saved in metadata.extracted
+export interface ExtractedArtifacts {
+  text_key: string;
+  structure_key: string;
+  text_sha256: string;
+  characters: number;
+  pages: number;
+  sections: number;
+  stored_at: string;
+}
+
+export function artifactKey(tenantId: string, docId: string, kind: ArtifactKind): string {
+  return `${tenantId}/${docId}/${ARTIFACT_FILES[kind]}`;
+}
+
+// Page and section offsets of the cleaned text, plus where each chunk came from
+export function buildTextStructure(text: string, textSha256: string, chunks: TextChunk[]): TextStructure {
+  const pages: PageOffset[] = [];
+  const sections: SectionOffset[] = [];
+  const paged = text.includes(PAGE_BREAK);
+
+  let pageStart = 0;
+  text.split(PAGE_BREAK).forEach((pageText, pageIndex) => {
+    const page = paged ? pageIndex + 1 : null;
+    if (page !== null) {
+      pages.push({ page, start: pageStart, end: pageStart + pageText.length });
+    }
+
+    let lineStart = pageStart;
+    for (const line of pageText.split('\n')) {
+      const heading = line.trim().match(HEADING_PATTERN);
+      if (heading) {
+        const previous = sections[sections.length - 1];
+        if (previous) previous.end = lineStart;
+        sections.push({ title: heading[2].trim(), level: heading[1].length, start: lineStart, end: text.length, page });
+      }
+      lineStart += line.length + 1;
+    }
+
+    pageStart += pageText.length + PAGE_BREAK.length;
+  });
+
+  return {
+    text_sha256: textSha256,
+    characters: text.length,
+    pages,
+    sections,
+    chunks: chunks.map((chunk, index) => ({
+      chunk_index: index,
+      start_token: chunk.start_token,
+      end_token: chunk.end_token,
+      section: chunk.section,
+      page_range: chunk.page_range
+    }))
+  };
+}
+
+// Write text.txt and structure.json for the document, replacing the previous run's
+export async function saveExtractedArtifacts(
+  tenantId: string,
+  docId: string,
+  text: string,
+  structure: TextStructure
+): Promise<ExtractedArtifacts> {
+  const store = getStore(EXTRACTED_STORE);
+  const textKey = artifactKey(tenantId, docId, 'text');
+  const structureKey = artifactKey(tenantId, docId, 'structure');
+
+  await store.set(textKey, text, { metadata: { text_sha256: structure.text_sha256 } });
+  await store.setJSON(structureKey, structure);
+
+  return {
+    text_key: textKey,
+    structure_key: structureKey,
+    text_sha256: structure.text_sha256,
+    characters: structure.characters,
+    pages: structure.pages.length,
+    sections: structure.sections.length,
+    stored_at: new Date().toISOString()
+  };
+}
+
+// The stored full text, or null for documents extracted before artifacts were kept
+export async function loadExtractedText(pointers?: ExtractedArtifacts | null): Promise<string | null> {
+  if (!pointers?.text_key) {
+    return null;
+  }
+  return getStore(EXTRACTED_STORE).get(pointers.text_key);
+}
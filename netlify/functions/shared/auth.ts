@@ -0,0 +1,144 @@
+import { createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyGetKey } from 'jose';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiError, ErrorCodes } from './utils';
+import { isValidTenantId } from './tenant';
+
+// Roles in increasing order of privilege; matches core.users.role
+export const ROLES = ['student', 'teacher', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthContext {
+  userId: string;
+  tenantId: string;
+  role: Role;
+}
+
+export type AuthResult =
+  | { success: true; auth: AuthContext }
+  | { success: false; statusCode: 401 | 403 | 500; error: ApiError };
+
+// Verification is configured from the environment:
+//   AUTH_JWKS_URL     identity provider key set (RS256/ES256 tokens), or
+//   AUTH_JWT_SECRET   shared HMAC secret (HS256 tokens)
+//   AUTH_ISSUER / AUTH_AUDIENCE          checked when set
+//   AUTH_TENANT_CLAIM / AUTH_ROLE_CLAIM  claim names, default tenant_id / role
+let cachedJwks: { url: string; keySet: JWTVerifyGetKey } | null = null;
+
+function getVerificationKey(): JWTVerifyGetKey {
+  const jwksUrl = process.env.AUTH_JWKS_URL;
+  if (jwksUrl) {
+    // The key set caches fetched keys, so keep one per warm function instance
+    if (!cachedJwks || cachedJwks.url !== jwksUrl) {
+      cachedJwks = { url: jwksUrl, keySet: createRemoteJWKSet(new URL(jwksUrl)) };
+    }
+    return cachedJwks.keySet;
+  }
+
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (secret) {
+    const key = new TextEncoder().encode(secret);
+    return async () => key;
+  }
+
+  throw new Error('AUTH_JWKS_URL or AUTH_JWT_SECRET environment variable is required');
+}
+
+function getBearerToken(headers: Record<string, string | undefined>): string | null {
+  const header = headers['authorization'] || headers['Authorization'] || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function unauthorized(message: string): AuthResult {
+  return { success: false, statusCode: 401, error: { error: message, code: ErrorCodes.UNAUTHORIZED } };
+}
+
+// Map verified claims to an auth context, or explain why they are unusable
+function toAuthContext(payload: JWTPayload): AuthContext | string {
+  const tenantClaim = process.env.AUTH_TENANT_CLAIM || 'tenant_id';
+  const roleClaim = process.env.AUTH_ROLE_CLAIM || 'role';
+
+  const tenantId = payload[tenantClaim];
+  const role = payload[roleClaim];
+
+  if (!payload.sub) {
+    return 'Token has no subject';
+  }
+  if (typeof tenantId !== 'string' || !isValidTenantId(tenantId)) {
+    return `Token has no valid ${tenantClaim} claim`;
+  }
+  if (typeof role !== 'string' || !(ROLES as readonly string[]).includes(role)) {
+    return `Token has no valid ${roleClaim} claim`;
+  }
+
+  return { userId: payload.sub, tenantId, role: role as Role };
+}
+
+// Verify the request's bearer token and check the caller holds one of the allowed roles.
+// With no roles given, any authenticated user is allowed.
+export async function authenticate(
+  event: { headers: Record<string, string | undefined> },
+  allowedRoles: Role[] = []
+): Promise<AuthResult> {
+  const token = getBearerToken(event.headers);
+  if (!token) {
+    return unauthorized('Missing bearer token');
+  }
+
+  // A deployment without a key is misconfigured; answer with an error rather than throwing
+  let verificationKey: JWTVerifyGetKey;
+  try {
+    verificationKey = getVerificationKey();
+  } catch (error) {
+    console.error('Token verification is not configured:', error instanceof Error ? error.message : error);
+    return {
+      success: false,
+      statusCode: 500,
+      error: { error: 'Authentication is not configured', code: ErrorCodes.CONFIGURATION_ERROR }
+    };
+  }
+
+  let payload: JWTPayload;
+  try {
+    const result = await jwtVerify(token, verificationKey, {
+      issuer: process.env.AUTH_ISSUER || undefined,
+      audience: process.env.AUTH_AUDIENCE || undefined
+    });
+    payload = result.payload;
+  } catch (error) {
+    console.warn('Token verification failed:', error instanceof Error ? error.message : error);
+    return unauthorized('Invalid or expired token');
+  }
+
+  const auth = toAuthContext(payload);
+  if (typeof auth === 'string') {
+    return unauthorized(auth);
+  }
+
+  if (allowedRoles.length > 0 && !allowedRoles.includes(auth.role)) {
+    return {
+      success: false,
+      statusCode: 403,
+      error: {
+        error: 'Insufficient role for this operation',
+        code: ErrorCodes.FORBIDDEN,
+        details: { role: auth.role, required: allowedRoles }
+      }
+    };
+  }
+
+  return { success: true, auth };
+}
+
+// Whether the request carries INGEST_WORKER_SECRET in X-Worker-Secret, as scheduled functions do when
+// they start the ingest worker or the maintenance run. Never true when no secret is configured.
+export function hasWorkerSecret(event: { headers: Record<string, string | undefined> }): boolean {
+  const secret = process.env.INGEST_WORKER_SECRET;
+  const sent = event.headers['x-worker-secret'] || event.headers['X-Worker-Secret'];
+  if (!secret || !sent) {
+    return false;
+  }
+  // Equal-length digests, so the comparison takes the same time whatever was sent
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(sent), digest(secret));
+}
@@ -0,0 +1,253 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+// text-embedding-3-small tokenizes with cl100k_base
+const ENCODING = 'cl100k_base';
+
+// Page breaks are form feeds, as pdftotext emits them
+const PAGE_BREAK = '\f';
+
+// Markdown-style heading lines produced by the extractors (h1-h3)
+const HEADING_PATTERN = /^(#{1,3})\s+(.+)$/;
+
+// "Chapter 3: ...", "Part IV", "Unit Seven", or a bare leading number ("3. The Storm")
+const SECTION_NUMBER_PATTERN = /^(?:(?:chapter|part|book|section|unit|lesson)\s+)?(\d+|[ivxlc]+|[a-z]+)\b/i;
+
+const NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty'
+];
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+// Abbreviations that end with a period but don't end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc',
+  'e.g', 'i.e', 'no', 'vol', 'ch', 'fig', 'p', 'pp', 'inc', 'ltd', 'co'
+]);
+
+export interface TextChunk {
+  text: string;
+  start_token: number;
+  end_token: number;     // exclusive
+  section: string | null;
+  page_range: [number, number] | null;
+}
+
+// Chunk size used unless a document's index is built with other settings
+export const DEFAULT_MAX_TOKENS = 700;
+export const DEFAULT_OVERLAP_TOKENS = 120;
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+interface Unit {
+  text: string;
+  tokens: number;
+  start: number;
+  section: string | null;
+  page: number | null;
+  paragraphStart: boolean;
+}
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = getEncoding(ENCODING);
+  }
+  return encoder;
+}
+
+// Count tokens the same way the embedding model does
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+function romanToNumber(roman: string): number | null {
+  let total = 0;
+  const chars = roman.toLowerCase();
+  for (let i = 0; i < chars.length; i++) {
+    const value = ROMAN_VALUES[chars[i]];
+    const next = ROMAN_VALUES[chars[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total > 0 ? total : null;
+}
+
+// Ordinal of a section heading ("Chapter 3: The Storm" -> 3) so queries can filter by chapter range
+export function sectionNumber(heading: string | null): number | null {
+  if (!heading) return null;
+  const match = heading.trim().match(SECTION_NUMBER_PATTERN);
+  if (!match) return null;
+
+  const token = match[1].toLowerCase();
+  const hasKeyword = match[0].length > match[1].length;
+
+  if (/^\d+$/.test(token)) return parseInt(token, 10);
+  // Words and numerals only count after a keyword; "I Remember" is not section 1
+  if (!hasKeyword) return null;
+  const wordIndex = NUMBER_WORDS.indexOf(token);
+  if (wordIndex >= 0) return wordIndex;
+  return /^[ivxlc]+$/.test(token) ? romanToNumber(token) : null;
+}
+
+// Split a paragraph into sentences on terminal punctuation, skipping common abbreviations
+export function splitSentences(paragraph: string): string[] {
+  const text = paragraph.replace(/\s+/g, ' ').trim();
+  if (!text) return [];
+
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["'”’)\]]*\s+(?=["'“‘(\[]?[A-Z0-9])/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const candidate = text.slice(start, end).trim();
+    const lastWord = candidate.split(' ').pop()?.replace(/[.!?"'”’)\]]+$/, '').toLowerCase() || '';
+
+    // "Dr. Smith" or "J. R. R. Tolkien" - not a sentence end
+    if (ABBREVIATIONS.has(lastWord) || /^[a-z]$/i.test(lastWord)) {
+      continue;
+    }
+
+    sentences.push(candidate);
+    start = end;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
+
+// Word-wrap a sentence that alone exceeds the token budget
+function wrapWords(sentence: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const word of sentence.split(' ')) {
+    const wordTokens = countTokens(` ${word}`);
+    if (current.length > 0 && currentTokens + wordTokens > maxTokens) {
+      pieces.push(current.join(' '));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(word);
+    currentTokens += wordTokens;
+  }
+
+  if (current.length > 0) pieces.push(current.join(' '));
+  return pieces;
+}
+
+// Break text into sentence units, tracking token offsets, section headings and pages
+function toUnits(text: string, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  const pages = text.split(PAGE_BREAK);
+  const paged = pages.length > 1;
+  let section: string | null = null;
+  let offset = 0;
+
+  const push = (sentence: string, page: number | null, paragraphStart: boolean) => {
+    const tokens = countTokens(sentence);
+    const pieces = tokens > maxTokens ? wrapWords(sentence, maxTokens) : [sentence];
+
+    pieces.forEach((piece, index) => {
+      const pieceTokens = pieces.length === 1 ? tokens : countTokens(piece);
+      units.push({ text: piece, tokens: pieceTokens, start: offset, section, page, paragraphStart: paragraphStart && index === 0 });
+      offset += pieceTokens;
+    });
+  };
+
+  pages.forEach((pageText, pageIndex) => {
+    const page = paged ? pageIndex + 1 : null;
+
+    for (const block of pageText.split(/\n\s*\n/)) {
+      // Lines inside a block are soft-wrapped prose, except heading lines
+      let paragraph: string[] = [];
+      const flush = () => {
+        splitSentences(paragraph.join(' ')).forEach((sentence, index) => push(sentence, page, index === 0));
+        paragraph = [];
+      };
+
+      for (const line of block.split('\n')) {
+        const heading = line.trim().match(HEADING_PATTERN);
+        if (heading) {
+          flush();
+          section = heading[2].trim();
+          push(section, page, true);
+        } else {
+          paragraph.push(line);
+        }
+      }
+
+      flush();
+    }
+  });
+
+  return units;
+}
+
+function buildChunk(units: Unit[], firstNew: number): TextChunk {
+  const text = units
+    .map((unit, index) => (index === 0 ? '' : unit.paragraphStart ? '\n\n' : ' ') + unit.text)
+    .join('');
+  const pages = units.map(unit => unit.page).filter((page): page is number => page !== null);
+  const last = units[units.length - 1];
+
+  return {
+    text,
+    start_token: units[0].start,
+    end_token: last.start + last.tokens,
+    // Attribute the chunk to the section where its new (non-overlap) content begins
+    section: units[firstNew].section,
+    page_range: pages.length > 0 ? [Math.min(...pages), Math.max(...pages)] : null
+  };
+}
+
+// Sentence-aware chunking with token-accurate sizing and overlap
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlapTokens = options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS;
+  const units = toUnits(text, maxTokens);
+  const chunks: TextChunk[] = [];
+
+  let start = 0;
+  let firstNew = 0;
+
+  while (firstNew < units.length) {
+    let end = firstNew;
+    let tokens = units.slice(start, firstNew).reduce((sum, unit) => sum + unit.tokens, 0);
+
+    // Give up overlap rather than exceed the budget
+    while (start < firstNew && tokens + units[firstNew].tokens > maxTokens) {
+      tokens -= units[start].tokens;
+      start++;
+    }
+
+    while (end < units.length && (end === firstNew || tokens + units[end].tokens <= maxTokens)) {
+      tokens += units[end].tokens;
+      end++;
+    }
+
+    chunks.push(buildChunk(units.slice(start, end), firstNew - start));
+    if (end >= units.length) break;
+
+    // Carry whole trailing sentences into the next chunk, up to the overlap budget
+    let overlapStart = end;
+    let carried = 0;
+    while (overlapStart - 1 > firstNew && carried + units[overlapStart - 1].tokens <= overlapTokens) {
+      overlapStart--;
+      carried += units[overlapStart].tokens;
+    }
+
+    start = overlapStart;
+    firstNew = end;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,111 @@
+import { ChunkResult } from './retrieval';
+import { PackedContext, formatPages } from './context-packer';
+import { splitClaims, lexicalSupport } from './verifier';
+
+// The span of a chunk that best matches what the answer said; start/end index into the chunk text
+export interface CitedQuote {
+  chunk_id: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface Citation {
+  marker: number;                 // the n in [n]
+  chunk_ids: number[];            // every chunk merged into the cited passage
+  document_id?: string;
+  document_title?: string;
+  section: string | null;
+  page_from: number | null;
+  page_to: number | null;
+  pages: string | null;
+  claims: string[];               // answer sentences carrying this marker
+  quote: CitedQuote | null;
+}
+
+export interface CitationMap {
+  citations: Citation[];
+  unresolved_citations: number[];  // markers in the answer with no passage behind them
+}
+
+// Sentences of a chunk as exact spans of its text
+function sentenceSpans(text: string): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const pattern = /[^.!?\n]+(?:[.!?]+["')]*|$)/g;
+  for (const match of text.matchAll(pattern)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed) {
+      const start = match.index! + leading;
+      spans.push({ start, end: start + trimmed.length });
+    }
+  }
+  return spans;
+}
+
+// Pick the sentence from the passage's chunks sharing the most content words with the claims
+function bestQuote(claims: string[], chunks: ChunkResult[]): CitedQuote | null {
+  const claimText = claims.join(' ');
+  let best: (CitedQuote & { score: number }) | null = null;
+
+  for (const chunk of chunks) {
+    for (const span of sentenceSpans(chunk.content)) {
+      const text = chunk.content.slice(span.start, span.end);
+      // Claim words the sentence covers, times sentence words the claims repeat, so neither
+      // a long sentence nor a short sentence of stopwords wins by default
+      const score = lexicalSupport(claimText, text) * lexicalSupport(text, claimText);
+      if (!best || score > best.score) {
+        best = { chunk_id: chunk.id, text, ...span, score };
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { score, ...quote } = best;
+  return quote;
+}
+
+// Resolve each [n] used in the answer to the passage, chunks and quoted span behind it
+export function buildCitations(answer: string, packed: PackedContext, chunks: ChunkResult[]): CitationMap {
+  const claimsByMarker = new Map<number, string[]>();
+  for (const claim of splitClaims(answer)) {
+    for (const marker of claim.citations) {
+      claimsByMarker.set(marker, [...(claimsByMarker.get(marker) ?? []), claim.text]);
+    }
+  }
+
+  const passages = new Map(packed.passages.map(passage => [passage.citation, passage]));
+  const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+  const citations: Citation[] = [];
+  const unresolved: number[] = [];
+
+  for (const [marker, claims] of claimsByMarker) {
+    const passage = passages.get(marker);
+    if (!passage) {
+      unresolved.push(marker);
+      continue;
+    }
+
+    const passageChunks = passage.chunk_ids
+      .map(id => chunksById.get(id))
+      .filter((chunk): chunk is ChunkResult => chunk !== undefined);
+
+    citations.push({
+      marker,
+      chunk_ids: passage.chunk_ids,
+      document_id: passageChunks[0]?.document_id,
+      document_title: passage.document_title,
+      section: passage.section,
+      page_from: passage.page_from,
+      page_to: passage.page_to,
+      pages: formatPages(passage),
+      claims,
+      quote: bestQuote(claims, passageChunks)
+    });
+  }
+
+  return {
+    citations: citations.sort((a, b) => a.marker - b.marker),
+    unresolved_citations: unresolved.sort((a, b) => a - b)
+  };
+}
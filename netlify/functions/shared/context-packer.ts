@@ -0,0 +1,210 @@
+import { countTokens } from './chunker';
+import { ChunkResult } from './retrieval';
+
+// Tokens of retrieved text allowed in the prompt, per chat model. Leaves room for the
+// instructions, the question and the answer (max_tokens) inside the model's window.
+const CONTEXT_BUDGETS: Record<string, number> = {
+  'gpt-3.5-turbo': 3000,
+  'gpt-4o-mini': 8000,
+  'gpt-4o': 8000
+};
+const DEFAULT_CONTEXT_BUDGET = 3000;
+
+// Word 3-gram Jaccard similarity at or above this drops the lower-ranked chunk
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+const SHINGLE_SIZE = 3;
+
+export function contextBudgetForModel(model: string): number {
+  return CONTEXT_BUDGETS[model] ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+// One citation in the prompt: a chunk, or a run of adjacent chunks from the same document
+export interface Passage {
+  citation: number;
+  chunk_ids: number[];
+  document_title?: string;
+  section: string | null;
+  page_from: number | null;
+  page_to: number | null;
+  tokens: number;
+  text: string;
+}
+
+export interface DroppedChunk {
+  chunk_id: number;
+  reason: 'duplicate' | 'budget';
+  duplicate_of?: number;
+}
+
+export interface PackedContext {
+  passages: Passage[];
+  included: { chunk_id: number; citation: number }[];
+  dropped: DroppedChunk[];
+  tokens_used: number;
+  token_budget: number;
+}
+
+// Format page span for citations ("p. 42" / "pp. 42–43")
+export function formatPages(span: { page_from?: number | null; page_to?: number | null }): string | null {
+  if (span.page_from == null) return null;
+  if (span.page_to == null || span.page_to === span.page_from) return `p. ${span.page_from}`;
+  return `pp. ${span.page_from}–${span.page_to}`;
+}
+
+// Source label shown next to each citation: title, section, pages
+export function formatSource(passage: { document_title?: string; section?: string | null; page_from?: number | null; page_to?: number | null }): string {
+  return [passage.document_title, passage.section, formatPages(passage)]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+  const result = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+// Append `next` to `previous`, dropping the sentences the chunker repeated as overlap
+export function joinOverlapping(previous: string, next: string): string {
+  const probe = next.slice(0, Math.min(30, next.length));
+  let position = previous.indexOf(probe);
+  while (position !== -1) {
+    const tail = previous.slice(position);
+    if (next.startsWith(tail)) {
+      return previous + next.slice(tail.length);
+    }
+    position = previous.indexOf(probe, position + 1);
+  }
+  return `${previous} ${next}`;
+}
+
+function docKey(chunk: ChunkResult): string {
+  return chunk.doc_id != null ? `id:${chunk.doc_id}` : `title:${chunk.document_title ?? ''}`;
+}
+
+// Merge each document's selected chunks into runs of consecutive chunk indexes
+function buildPassages(selected: ChunkResult[]): Omit<Passage, 'citation'>[] {
+  const rank = new Map(selected.map((chunk, index) => [chunk.id, index]));
+  const byDocument = new Map<string, ChunkResult[]>();
+  for (const chunk of selected) {
+    const key = docKey(chunk);
+    byDocument.set(key, [...(byDocument.get(key) ?? []), chunk]);
+  }
+
+  const runs: ChunkResult[][] = [];
+  for (const chunks of byDocument.values()) {
+    chunks.sort((a, b) => a.chunk_index - b.chunk_index);
+    let run: ChunkResult[] = [];
+    for (const chunk of chunks) {
+      if (run.length > 0 && chunk.chunk_index !== run[run.length - 1].chunk_index + 1) {
+        runs.push(run);
+        run = [];
+      }
+      run.push(chunk);
+    }
+    if (run.length > 0) runs.push(run);
+  }
+
+  // Citations follow the best-ranked chunk in each passage
+  const bestRank = (run: ChunkResult[]) => Math.min(...run.map(chunk => rank.get(chunk.id)!));
+  runs.sort((a, b) => bestRank(a) - bestRank(b));
+
+  return runs.map(run => {
+    const text = run.slice(1).reduce((joined, chunk) => joinOverlapping(joined, chunk.content), run[0].content);
+    const first = run[0].section ?? null;
+    const last = run[run.length - 1].section ?? null;
+    const pagesFrom = run.map(chunk => chunk.page_from).filter((page): page is number => page != null);
+    const pagesTo = run.map(chunk => chunk.page_to ?? chunk.page_from).filter((page): page is number => page != null);
+
+    return {
+      chunk_ids: run.map(chunk => chunk.id),
+      document_title: run[0].document_title,
+      section: first && last && first !== last ? `${first} – ${last}` : first ?? last,
+      page_from: pagesFrom.length > 0 ? Math.min(...pagesFrom) : null,
+      page_to: pagesTo.length > 0 ? Math.max(...pagesTo) : null,
+      tokens: countTokens(text),
+      text
+    };
+  });
+}
+
+function totalTokens(passages: { tokens: number }[]): number {
+  return passages.reduce((sum, passage) => sum + passage.tokens, 0);
+}
+
+// Choose which ranked chunks go into the prompt: drop near-duplicates, keep the best chunks
+// that fit the token budget, merge neighbours and number the resulting passages.
+export function packContext(chunks: ChunkResult[], tokenBudget: number): PackedContext {
+  const dropped: DroppedChunk[] = [];
+  const unique: { chunk: ChunkResult; shingles: Set<string> }[] = [];
+
+  for (const chunk of chunks) {
+    const chunkShingles = shingles(chunk.content);
+    // Overlapping neighbours from one document are merged below, not treated as duplicates
+    const duplicate = unique.find(kept =>
+      !(docKey(kept.chunk) === docKey(chunk) && Math.abs(kept.chunk.chunk_index - chunk.chunk_index) === 1) &&
+      jaccard(kept.shingles, chunkShingles) >= NEAR_DUPLICATE_THRESHOLD
+    );
+    if (duplicate) {
+      dropped.push({ chunk_id: chunk.id, reason: 'duplicate', duplicate_of: duplicate.chunk.id });
+    } else {
+      unique.push({ chunk, shingles: chunkShingles });
+    }
+  }
+
+  // Greedy by rank; a later, smaller chunk may still fit after a larger one is dropped
+  let selected: ChunkResult[] = [];
+  let passages: Omit<Passage, 'citation'>[] = [];
+  for (const { chunk } of unique) {
+    const candidate = [...selected, chunk];
+    const candidatePassages = buildPassages(candidate);
+    if (totalTokens(candidatePassages) <= tokenBudget) {
+      selected = candidate;
+      passages = candidatePassages;
+    } else {
+      dropped.push({ chunk_id: chunk.id, reason: 'budget' });
+    }
+  }
+
+  const numbered = passages.map((passage, index) => ({ citation: index + 1, ...passage }));
+
+  return {
+    passages: numbered,
+    included: numbered.flatMap(passage => passage.chunk_ids.map(chunk_id => ({ chunk_id, citation: passage.citation }))),
+    dropped,
+    tokens_used: totalTokens(numbered),
+    token_budget: tokenBudget
+  };
+}
+
+// System prompt: numbered, labelled passages followed by the answering instructions
+export function renderContext(packed: PackedContext): string {
+  let context = "Based on the following information:\n\n";
+
+  for (const passage of packed.passages) {
+    const source = formatSource(passage);
+    context += `[${passage.citation}]${source ? ` (${source})` : ''} ${passage.text}\n\n`;
+  }
+
+  context += "Please answer the user's question using the information above. ";
+  context += "Include citations in your response using the format [1], [2], etc. ";
+  context += "If the information doesn't contain relevant details to answer the question, say so clearly.";
+
+  return context;
+}
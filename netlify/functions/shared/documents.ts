@@ -0,0 +1,203 @@
+import { Client } from 'pg';
+import { getStore } from '@netlify/blobs';
+import { EXTRACTED_STORE } from './artifacts';
+
+// Stores holding per-document blobs, keyed {tenant_id}/{doc_id}/...
+export const DOCUMENT_BLOB_STORES = ['uploads', EXTRACTED_STORE];
+
+// metadata.status of a document whose deletion started but has not finished
+export const DELETING_STATUS = 'DELETING';
+
+// A live document holding an uploaded file
+export interface UploadedFile {
+  id: number;
+  doc_id: string;
+  title: string;
+  status: string;
+  blob_path: string;
+  file_size: number;
+  teks_codes: string[];
+  file_version: number;
+}
+
+// Find the newest live document with this exact file (by sha256), and the highest version number
+// used for the file so far, counting documents still being deleted
+export async function findUploadedFile(
+  client: Client,
+  tenantId: string,
+  fileSha256: string
+): Promise<{ document: UploadedFile | null; latestVersion: number }> {
+  const result = await client.query(`
+    SELECT id, metadata->>'doc_id' AS doc_id, title, metadata->>'status' AS status,
+      metadata->>'blob_path' AS blob_path, (metadata->>'file_size')::bigint AS file_size, teks_codes, file_version
+    FROM rag.documents
+    WHERE tenant_id = $1 AND file_sha256 = $2
+    ORDER BY file_version DESC
+  `, [tenantId, fileSha256]);
+
+  const live = result.rows.find(row => row.status !== DELETING_STATUS);
+  return {
+    document: live ? { ...live, file_size: Number(live.file_size) } : null,
+    latestVersion: result.rows[0]?.file_version ?? 0
+  };
+}
+
+// Response body when an upload matches a document the tenant already has
+export function existingUploadBody(document: UploadedFile, fileSha256: string) {
+  return {
+    doc_id: document.doc_id,
+    db_id: document.id,
+    blob_path: document.blob_path,
+    file_size: document.file_size,
+    file_sha256: fileSha256,
+    version: document.file_version,
+    teks_codes: document.teks_codes,
+    status: document.status,
+    duplicate: true
+  };
+}
+
+// A stored file about to become a document
+export interface NewUpload {
+  tenantId: string;
+  docId: string;
+  title: string;
+  documentType: string;
+  teksCodes: string[];
+  filename: string;
+  mimetype: string;
+  uploadedBy: string;
+  blobPath: string;
+  fileSize: number;
+  fileSha256: string;
+  fileVersion: number;
+  versionOf?: string;   // doc_id of the document already holding this file
+}
+
+// Register an uploaded file as a document in the UPLOADED stage. Returns the new row id, or null when
+// a concurrent upload of the same file already took this version.
+export async function insertUploadedDocument(client: Client, upload: NewUpload): Promise<number | null> {
+  try {
+    const result = await client.query(`
+      INSERT INTO rag.documents (
+        tenant_id,
+        title,
+        content,
+        document_type,
+        metadata,
+        source_url,
+        teks_codes,
+        file_sha256,
+        file_version,
+        created_at,
+        updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      RETURNING id
+    `, [
+      upload.tenantId,
+      upload.title,
+      '', // Content will be extracted later
+      upload.documentType,
+      JSON.stringify({
+        status: 'UPLOADED',
+        original_filename: upload.filename,
+        mimetype: upload.mimetype,
+        tenant_id: upload.tenantId,
+        uploaded_by: upload.uploadedBy,
+        doc_id: upload.docId,
+        blob_path: upload.blobPath,
+        file_size: upload.fileSize,
+        ...(upload.versionOf && { version_of: upload.versionOf }),
+        ingestion: { stages: { UPLOADED: new Date().toISOString() } }
+      }),
+      upload.blobPath,
+      upload.teksCodes,
+      upload.fileSha256,
+      upload.fileVersion
+    ]);
+    return result.rows[0].id;
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') return null;
+    throw error;
+  }
+}
+
+export interface DeleteResult {
+  doc_id: string;
+  db_id: number;
+  chunks: number;
+  blobs: Record<string, number>;
+  cancelled_jobs: number;
+  resumed: boolean;   // an earlier attempt had already started deleting this document
+}
+
+// Delete every blob under the document's prefix; deleting a missing key is not an error
+async function deleteDocumentBlobs(tenantId: string, docId: string): Promise<Record<string, number>> {
+  const deleted: Record<string, number> = {};
+  for (const storeName of DOCUMENT_BLOB_STORES) {
+    const store = getStore(storeName);
+    deleted[storeName] = 0;
+    for await (const page of store.list({ prefix: `${tenantId}/${docId}/`, paginate: true })) {
+      for (const blob of page.blobs) {
+        await store.delete(blob.key);
+        deleted[storeName]++;
+      }
+    }
+  }
+  return deleted;
+}
+
+// Remove a document with its chunks, vectors, index versions, queued jobs and blobs. Runs in three
+// steps so a failure part way can be retried: the document is first marked DELETING and taken out
+// of search, then its blobs are deleted, then the row (chunks, embeddings and index versions cascade).
+// Returns null if the document does not exist.
+export async function deleteDocument(client: Client, tenantId: string, docId: string): Promise<DeleteResult | null> {
+  let document;
+  let cancelledJobs;
+  await client.query('BEGIN');
+  try {
+    const result = await client.query(`
+      SELECT id, metadata->>'status' AS status,
+        (SELECT COUNT(*) FROM rag.chunks WHERE doc_id = rag.documents.id) AS chunks_count
+      FROM rag.documents
+      WHERE metadata->>'doc_id' = $1 AND tenant_id = $2
+      FOR UPDATE
+    `, [docId, tenantId]);
+    document = result.rows[0];
+    if (!document) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(`
+      UPDATE rag.documents
+      SET metadata = metadata || jsonb_build_object('status', $2::text, 'deleting_at', $3::text),
+          active_index_version = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [document.id, DELETING_STATUS, new Date().toISOString()]);
+
+    // A job already running fails once the row is gone; blobs it writes meanwhile are left to nightly maintenance
+    cancelledJobs = await client.query(
+      'DELETE FROM rag.ingest_jobs WHERE tenant_id = $1 AND doc_id = $2',
+      [tenantId, docId]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  const blobs = await deleteDocumentBlobs(tenantId, docId);
+
+  await client.query('DELETE FROM rag.documents WHERE id = $1', [document.id]);
+
+  return {
+    doc_id: docId,
+    db_id: document.id,
+    chunks: Number(document.chunks_count),
+    blobs,
+    cancelled_jobs: cancelledJobs.rowCount ?? 0,
+    resumed: document.status === DELETING_STATUS
+  };
+}
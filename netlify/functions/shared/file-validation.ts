@@ -0,0 +1,334 @@
+import { inflateRawSync } from 'zlib';
+import { ApiError, ErrorCodes } from './utils';
+
+// Formats ingestion can extract text from
+export type FileKind = 'pdf' | 'docx' | 'epub' | 'txt' | 'html';
+
+export const FILE_KINDS: Record<FileKind, { mimetype: string; extensions: string[] }> = {
+  pdf: { mimetype: 'application/pdf', extensions: ['pdf'] },
+  docx: { mimetype: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['docx'] },
+  epub: { mimetype: 'application/epub+zip', extensions: ['epub'] },
+  txt: { mimetype: 'text/plain', extensions: ['txt', 'text', 'md'] },
+  html: { mimetype: 'text/html', extensions: ['html', 'htm', 'xhtml'] }
+};
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxUncompressedBytes: number;
+  // Uncompressed/compressed size of one entry; text XML rarely passes 20
+  maxCompressionRatio: number;
+}
+
+// DOCX and EPUB are ZIP containers; these bound what one may expand to
+export const ZIP_LIMITS: ZipLimits = {
+  maxEntries: 10_000,
+  maxUncompressedBytes: 256 * 1024 * 1024,
+  maxCompressionRatio: 200
+};
+
+export type FileValidationResult =
+  | { success: true; kind: FileKind; mimetype: string }
+  | { success: false; statusCode: number; error: ApiError };
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Legacy Office files, and the envelope Word puts password-protected DOCX files in
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Text is checked on a sample so large files are not decoded twice
+const TEXT_SAMPLE_BYTES = 1024 * 1024;
+
+// ALLOWED_UPLOAD_TYPES narrows the formats a deployment accepts, e.g. "pdf,docx"
+export function allowedFileKinds(env: NodeJS.ProcessEnv = process.env): FileKind[] {
+  const configured = (env.ALLOWED_UPLOAD_TYPES ?? '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter((entry): entry is FileKind => Object.keys(FILE_KINDS).includes(entry));
+  return configured.length > 0 ? [...new Set(configured)] : (Object.keys(FILE_KINDS) as FileKind[]);
+}
+
+function fileExtension(filename: string): string | null {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.slice(dot + 1).toLowerCase() : null;
+}
+
+export function kindForFilename(filename: string): FileKind | null {
+  const ext = fileExtension(filename);
+  if (!ext) return null;
+  return (Object.keys(FILE_KINDS) as FileKind[]).find(kind => FILE_KINDS[kind].extensions.includes(ext)) ?? null;
+}
+
+export function kindForMimetype(mimetype: string): FileKind | null {
+  const base = mimetype.split(';')[0].trim().toLowerCase();
+  return (Object.keys(FILE_KINDS) as FileKind[]).find(kind => FILE_KINDS[kind].mimetype === base) ?? null;
+}
+
+interface ZipEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Read the central directory. Returns null for anything that is not a plain (non-ZIP64) archive
+// we can walk to the end.
+function readZipEntries(buffer: Buffer): ZipEntry[] | null {
+  const minEnd = Math.max(0, buffer.length - 22 - 0xffff);
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= minEnd; offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) return null;
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      flags: buffer.readUInt16LE(offset + 8),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function zipKind(entries: ZipEntry[]): FileKind | null {
+  const names = new Set(entries.map(entry => entry.name));
+  if (names.has('mimetype') && names.has('META-INF/container.xml')) return 'epub';
+  if (names.has('[Content_Types].xml') && entries.some(entry => entry.name.startsWith('word/'))) return 'docx';
+  return null;
+}
+
+function isText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, TEXT_SAMPLE_BYTES);
+  if (sample.includes(0)) return false;
+  try {
+    // stream: a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function looksLikeHtml(buffer: Buffer): boolean {
+  const head = buffer.subarray(0, 1024).toString('utf8').replace(/^\uFEFF/, '');
+  return /^(?:\s|<!--[\s\S]*?-->|<\?xml[^>]*>)*<(?:!doctype\s+html|html[\s>])/i.test(head);
+}
+
+function sniff(buffer: Buffer, filename: string): { kind: FileKind | null; entries?: ZipEntry[] } {
+  // The spec lets a PDF header start anywhere in the first 1 KB
+  const pdfHeader = buffer.indexOf(PDF_SIGNATURE);
+  if (pdfHeader >= 0 && pdfHeader < 1024) return { kind: 'pdf' };
+
+  if (buffer.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+    const entries = readZipEntries(buffer);
+    return entries ? { kind: zipKind(entries), entries } : { kind: null };
+  }
+
+  if (!isText(buffer)) return { kind: null };
+
+  // Text formats have no signature (an HTML fragment is just text), so the extension decides
+  const claimed = kindForFilename(filename);
+  if (claimed === 'txt' || claimed === 'html') return { kind: claimed };
+  return { kind: looksLikeHtml(buffer) ? 'html' : 'txt' };
+}
+
+// Type of a stored file from its content, or null when the bytes do not identify one
+export function detectFileKind(buffer: Buffer, filename: string): FileKind | null {
+  return sniff(buffer, filename).kind;
+}
+
+function failure(statusCode: number, error: string, code: string, details?: Record<string, unknown>): FileValidationResult {
+  return { success: false, statusCode, error: { error, code, details } };
+}
+
+// Upfront check of the name alone, for uploads whose content arrives later
+export function checkFileExtension(filename: string, allowed: FileKind[] = allowedFileKinds()): FileValidationResult {
+  const kind = kindForFilename(filename);
+  if (!kind || !allowed.includes(kind)) {
+    return failure(415, 'Unsupported file type', ErrorCodes.UNSUPPORTED_FILE_TYPE, {
+      filename,
+      allowed_extensions: allowed.flatMap(allowedKind => FILE_KINDS[allowedKind].extensions)
+    });
+  }
+  return { success: true, kind, mimetype: FILE_KINDS[kind].mimetype };
+}
+
+// A name followed by a delimiter, so /Launch does not match /LaunchSomething
+function hasPdfName(buffer: Buffer, name: string): boolean {
+  const token = Buffer.from(`/${name}`);
+  for (let at = buffer.indexOf(token); at >= 0; at = buffer.indexOf(token, at + 1)) {
+    const next = buffer[at + token.length];
+    if (next === undefined || !/[A-Za-z0-9#._-]/.test(String.fromCharCode(next))) return true;
+  }
+  return false;
+}
+
+// Encryption is declared with /Encrypt in the trailer or the xref stream dictionary, neither of
+// which is compressed. Scripts and launch actions inside compressed object streams are not seen.
+function checkPdf(buffer: Buffer): FileValidationResult | null {
+  const encrypt = Buffer.from('/Encrypt');
+  for (let at = buffer.indexOf(encrypt); at >= 0; at = buffer.indexOf(encrypt, at + 1)) {
+    const value = buffer.toString('latin1', at + encrypt.length, at + encrypt.length + 32);
+    if (/^\s*(?:\d+\s+\d+\s+R|<<)/.test(value)) {
+      return failure(422, 'Encrypted or password-protected PDFs cannot be indexed; remove the password and upload again',
+        ErrorCodes.ENCRYPTED_DOCUMENT, { format: 'pdf' });
+    }
+  }
+
+  // Every script action is typed /S /JavaScript, so the short /JS key need not be searched for
+  const actions = ['JavaScript', 'Launch'].filter(name => hasPdfName(buffer, name));
+  if (actions.length > 0) {
+    return failure(422, 'PDF contains scripts or launch actions', ErrorCodes.UNSAFE_CONTENT, { format: 'pdf', actions });
+  }
+  return null;
+}
+
+// Declared sizes can lie, so every entry is also inflated against what is left of the budget
+function checkZip(buffer: Buffer, entries: ZipEntry[], kind: FileKind, limits: ZipLimits): FileValidationResult | null {
+  const tooLarge = (details: Record<string, unknown>) =>
+    failure(413, 'Archive expands beyond the allowed size', ErrorCodes.ARCHIVE_TOO_LARGE, {
+      format: kind,
+      max_entries: limits.maxEntries,
+      max_uncompressed_bytes: limits.maxUncompressedBytes,
+      ...details
+    });
+
+  if (entries.length > limits.maxEntries) {
+    return tooLarge({ entries: entries.length });
+  }
+
+  const unsafe = entries.filter(entry =>
+    entry.name.startsWith('/') || entry.name.includes('\\') || entry.name.split('/').includes('..'));
+  if (unsafe.length > 0) {
+    return failure(422, 'Archive contains entries outside its root', ErrorCodes.UNSAFE_CONTENT, {
+      format: kind,
+      entries: unsafe.slice(0, 10).map(entry => entry.name)
+    });
+  }
+
+  // A .docx with a macro project is a renamed .docm
+  if (kind === 'docx' && entries.some(entry => entry.name.toLowerCase().endsWith('vbaproject.bin'))) {
+    return failure(422, 'Word documents with macros are not accepted', ErrorCodes.UNSAFE_CONTENT, { format: kind, macros: true });
+  }
+
+  if (entries.some(entry => entry.flags & 0x1)) {
+    return failure(422, 'Encrypted archives cannot be indexed; remove the password and upload again',
+      ErrorCodes.ENCRYPTED_DOCUMENT, { format: kind });
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    total += entry.uncompressedSize;
+    if (total > limits.maxUncompressedBytes) {
+      return tooLarge({ uncompressed_bytes: total });
+    }
+    if (entry.uncompressedSize > 1024 * 1024
+      && entry.uncompressedSize > entry.compressedSize * limits.maxCompressionRatio) {
+      return tooLarge({ entry: entry.name, compression_ratio: Math.round(entry.uncompressedSize / Math.max(1, entry.compressedSize)) });
+    }
+  }
+
+  let inflated = 0;
+  for (const entry of entries) {
+    const header = entry.localHeaderOffset;
+    if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== 0x04034b50) {
+      return failure(400, 'Archive is damaged', ErrorCodes.VALIDATION_ERROR, { format: kind, entry: entry.name });
+    }
+    const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+    const data = buffer.subarray(start, start + entry.compressedSize);
+    const remaining = limits.maxUncompressedBytes - inflated;
+
+    if (entry.method === 0) {
+      inflated += data.length;
+    } else if (entry.method === 8) {
+      try {
+        inflated += inflateRawSync(data, { maxOutputLength: Math.max(1, remaining) }).length;
+      } catch (error) {
+        if (error instanceof RangeError) {
+          return tooLarge({ entry: entry.name });
+        }
+        return failure(400, 'Archive is damaged', ErrorCodes.VALIDATION_ERROR, { format: kind, entry: entry.name });
+      }
+    } else {
+      return failure(415, 'Archive uses an unsupported compression method', ErrorCodes.UNSUPPORTED_FILE_TYPE, {
+        format: kind,
+        entry: entry.name,
+        method: entry.method
+      });
+    }
+
+    if (inflated > limits.maxUncompressedBytes) {
+      return tooLarge({ uncompressed_bytes: inflated });
+    }
+  }
+  return null;
+}
+
+// Decide what an uploaded file really is from its bytes: it must be an allowed format, its extension
+// must agree with its content, and it must be safe to hand to the parsers.
+export function validateUploadedFile(
+  buffer: Buffer,
+  filename: string,
+  options: { allowed?: FileKind[]; zipLimits?: ZipLimits } = {}
+): FileValidationResult {
+  const allowed = options.allowed ?? allowedFileKinds();
+  const allowedExtensions = allowed.flatMap(kind => FILE_KINDS[kind].extensions);
+  const { kind, entries } = sniff(buffer, filename);
+
+  if (!kind) {
+    if (buffer.subarray(0, 8).equals(OLE_SIGNATURE) && kindForFilename(filename) === 'docx') {
+      return failure(422, 'Password-protected Word documents cannot be indexed; remove the password and upload again',
+        ErrorCodes.ENCRYPTED_DOCUMENT, { format: 'docx' });
+    }
+    if (buffer.subarray(0, 4).equals(ZIP_SIGNATURE) && !entries) {
+      return failure(400, 'Archive is damaged', ErrorCodes.VALIDATION_ERROR, { filename });
+    }
+    return failure(415, 'Unsupported file type', ErrorCodes.UNSUPPORTED_FILE_TYPE, {
+      filename,
+      detected: null,
+      allowed_extensions: allowedExtensions
+    });
+  }
+
+  if (!allowed.includes(kind)) {
+    return failure(415, `${kind.toUpperCase()} files are not accepted`, ErrorCodes.UNSUPPORTED_FILE_TYPE, {
+      filename,
+      detected: kind,
+      allowed_extensions: allowedExtensions
+    });
+  }
+
+  if (kindForFilename(filename) !== kind) {
+    return failure(400, `File content is ${kind.toUpperCase()} but the name says otherwise`, ErrorCodes.FILE_TYPE_MISMATCH, {
+      filename,
+      extension: fileExtension(filename),
+      detected: kind,
+      expected_extensions: FILE_KINDS[kind].extensions
+    });
+  }
+
+  const problem = kind === 'pdf'
+    ? checkPdf(buffer)
+    : entries
+      ? checkZip(buffer, entries, kind, options.zipLimits ?? ZIP_LIMITS)
+      : null;
+  return problem ?? { success: true, kind, mimetype: FILE_KINDS[kind].mimetype };
+}
@@ -0,0 +1,149 @@
+import { Client } from 'pg';
+import { DEFAULT_MAX_TOKENS, DEFAULT_OVERLAP_TOKENS } from './chunker';
+
+export type IndexVersionStatus = 'building' | 'active' | 'retired' | 'failed';
+
+// What produced a document's chunks and vectors
+export interface IndexSettings {
+  embedding_model: string;
+  chunk_max_tokens: number;
+  chunk_overlap_tokens: number;
+}
+
+export interface IndexVersion extends IndexSettings {
+  doc_id: number;          // rag.documents.id
+  version: number;
+  status: IndexVersionStatus;
+  text_sha256: string | null;
+  chunks_count: number | null;
+  job_id: number | null;
+  created_at: Date;
+  activated_at: Date | null;
+}
+
+// Settings a re-index job may change; anything left out keeps the document's current value
+export interface ReindexOptions {
+  chunking?: { max_tokens?: number; overlap_tokens?: number };
+  embedding_model?: string;
+}
+
+export async function activeIndexVersion(client: Client, dbDocId: number): Promise<IndexVersion | null> {
+  const result = await client.query(
+    'SELECT * FROM rag.index_versions WHERE doc_id = $1 AND status = \'active\'',
+    [dbDocId]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Embedding models of the tenant's live indexes; more than one while a re-index moves documents to a new model
+export async function activeEmbeddingModels(client: Client, tenantId: string): Promise<string[]> {
+  const result = await client.query(`
+    SELECT DISTINCT embedding_model FROM rag.index_versions
+    WHERE tenant_id = $1 AND status = 'active'
+    ORDER BY embedding_model
+  `, [tenantId]);
+  return result.rows.map(row => row.embedding_model);
+}
+
+// Settings for a run: a re-index applies its overrides on top of the active index; a retry of
+// failed chunks must match the active index exactly; a fresh ingestion uses the defaults.
+export function resolveIndexSettings(
+  payload: { mode?: string } & ReindexOptions,
+  active: IndexSettings | null,
+  defaultEmbeddingModel: string
+): IndexSettings {
+  const base: IndexSettings = payload.mode === 'reindex' || payload.mode === 'retry_failed'
+    ? active ?? defaultSettings(defaultEmbeddingModel)
+    : defaultSettings(defaultEmbeddingModel);
+
+  if (payload.mode !== 'reindex') {
+    return base;
+  }
+
+  return {
+    embedding_model: payload.embedding_model ?? base.embedding_model,
+    chunk_max_tokens: payload.chunking?.max_tokens ?? base.chunk_max_tokens,
+    chunk_overlap_tokens: payload.chunking?.overlap_tokens ?? base.chunk_overlap_tokens
+  };
+}
+
+function defaultSettings(embeddingModel: string): IndexSettings {
+  return { embedding_model: embeddingModel, chunk_max_tokens: DEFAULT_MAX_TOKENS, chunk_overlap_tokens: DEFAULT_OVERLAP_TOKENS };
+}
+
+// Start a new version for the document. Versions left building by an earlier, failed run are
+// marked failed and their chunks dropped; they were never visible to queries.
+export async function createIndexVersion(
+  client: Client,
+  tenantId: string,
+  dbDocId: number,
+  settings: IndexSettings,
+  textSha256: string,
+  jobId: number
+): Promise<number> {
+  const abandoned = await client.query(`
+    UPDATE rag.index_versions SET status = 'failed'
+    WHERE doc_id = $1 AND status = 'building'
+    RETURNING version
+  `, [dbDocId]);
+  if (abandoned.rows.length > 0) {
+    await client.query(
+      'DELETE FROM rag.chunks WHERE doc_id = $1 AND index_version = ANY($2::int[])',
+      [dbDocId, abandoned.rows.map(row => row.version)]
+    );
+  }
+
+  const result = await client.query(`
+    INSERT INTO rag.index_versions (
+      tenant_id, doc_id, version, embedding_model, chunk_max_tokens, chunk_overlap_tokens, text_sha256, job_id
+    )
+    SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5, $6, $7
+    FROM rag.index_versions
+    WHERE doc_id = $2
+    RETURNING version
+  `, [
+    tenantId,
+    dbDocId,
+    settings.embedding_model,
+    settings.chunk_max_tokens,
+    settings.chunk_overlap_tokens,
+    textSha256,
+    jobId
+  ]);
+  return result.rows[0].version;
+}
+
+// Make the version the one queries read, in one transaction: the previous version is retired and
+// its chunks (and, by cascade, vectors) removed, so a query sees either the old index or the new one.
+export async function activateIndexVersion(
+  client: Client,
+  dbDocId: number,
+  version: number,
+  chunksCount: number
+): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(`
+      UPDATE rag.index_versions
+      SET status = 'retired', retired_at = CURRENT_TIMESTAMP
+      WHERE doc_id = $1 AND status = 'active' AND version <> $2
+    `, [dbDocId, version]);
+    await client.query(`
+      UPDATE rag.index_versions
+      SET status = 'active', chunks_count = $3, activated_at = COALESCE(activated_at, CURRENT_TIMESTAMP)
+      WHERE doc_id = $1 AND version = $2
+    `, [dbDocId, version, chunksCount]);
+    await client.query(
+      'UPDATE rag.documents SET active_index_version = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [dbDocId, version]
+    );
+    await client.query(
+      'DELETE FROM rag.chunks WHERE doc_id = $1 AND index_version <> $2',
+      [dbDocId, version]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
@@ -0,0 +1,257 @@
+import { Client } from 'pg';
+import { getStore } from '@netlify/blobs';
+import { startBackgroundFunction } from './utils';
+
+export type IngestJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IngestJob {
+  id: number;
+  tenant_id: string;
+  doc_id: string;
+  idempotency_key: string | null;
+  status: IngestJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  last_error: string | null;
+  payload: Record<string, any>;
+  result: Record<string, any> | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Retry delays double from 30s, capped at 10 minutes: 30s, 1m, 2m, 4m
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+// Longer than a background function may run, so a running job is only reclaimed once its worker is gone
+const JOB_LEASE_MS = 20 * 60_000;
+
+// Permanently failed payloads are kept here for inspection
+const FAILED_JOBS_STORE = 'failed-jobs';
+
+// Retrying cannot help (missing document, nothing extractable); the job fails on the first attempt
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+// Queue a document for ingestion. Returns the existing job instead when the tenant already used
+// the idempotency key, or when the document already has a queued or running job.
+export async function enqueueIngestJob(
+  client: Client,
+  job: {
+    tenantId: string;
+    docId: string;
+    idempotencyKey?: string;
+    payload?: Record<string, any>;
+    maxAttempts?: number;
+  }
+): Promise<{ job: IngestJob; created: boolean }> {
+  const idempotencyKey = job.idempotencyKey ?? null;
+
+  // The existing job can finish between the insert and the lookup; one more round settles it
+  for (let round = 0; round < 2; round++) {
+    const inserted = await client.query(`
+      INSERT INTO rag.ingest_jobs (tenant_id, doc_id, idempotency_key, payload, max_attempts)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT DO NOTHING
+      RETURNING *
+    `, [job.tenantId, job.docId, idempotencyKey, JSON.stringify(job.payload ?? {}), job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS]);
+
+    if (inserted.rows.length > 0) {
+      return { job: inserted.rows[0], created: true };
+    }
+
+    const existing = await client.query(`
+      SELECT * FROM rag.ingest_jobs
+      WHERE tenant_id = $1
+        AND (idempotency_key = $2 OR (doc_id = $3 AND status IN ('queued', 'running')))
+      ORDER BY (idempotency_key IS NOT DISTINCT FROM $2) DESC, id DESC
+      LIMIT 1
+    `, [job.tenantId, idempotencyKey, job.docId]);
+
+    if (existing.rows.length > 0) {
+      return { job: existing.rows[0], created: false };
+    }
+  }
+
+  throw new Error(`Could not queue ingestion for ${job.docId}`);
+}
+
+// Claim the tenant's next job. Jobs run in id order: a job waits while an older one of the same
+// tenant is queued (possibly backing off) or running. A running job whose lease expired is reclaimed.
+// SKIP LOCKED lets concurrent workers pass over a job another worker is claiming.
+export async function claimNextJob(client: Client, tenantId: string, workerId: string): Promise<IngestJob | null> {
+  const result = await client.query(`
+    UPDATE rag.ingest_jobs j
+    SET status = 'running',
+        attempts = j.attempts + 1,
+        locked_at = CURRENT_TIMESTAMP,
+        locked_by = $2,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE j.id = (
+      SELECT q.id FROM rag.ingest_jobs q
+      WHERE q.tenant_id = $1
+        AND (
+          (q.status = 'queued' AND q.run_after <= CURRENT_TIMESTAMP)
+          OR (q.status = 'running' AND q.locked_at < CURRENT_TIMESTAMP - $3 * INTERVAL '1 millisecond')
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM rag.ingest_jobs older
+          WHERE older.tenant_id = q.tenant_id
+            AND older.id < q.id
+            AND older.status IN ('queued', 'running')
+        )
+      ORDER BY q.id
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `, [tenantId, workerId, JOB_LEASE_MS]);
+
+  return result.rows[0] ?? null;
+}
+
+// When the tenant's next queued job becomes due, or null when nothing is queued
+export async function nextRunAfter(client: Client, tenantId: string): Promise<Date | null> {
+  const result = await client.query(`
+    SELECT MIN(run_after) AS run_after FROM rag.ingest_jobs
+    WHERE tenant_id = $1 AND status = 'queued'
+  `, [tenantId]);
+  return result.rows[0]?.run_after ? new Date(result.rows[0].run_after) : null;
+}
+
+export async function completeJob(client: Client, job: IngestJob, result: Record<string, any>): Promise<void> {
+  await client.query(`
+    UPDATE rag.ingest_jobs
+    SET status = 'succeeded',
+        result = $2,
+        last_error = NULL,
+        locked_at = NULL,
+        locked_by = NULL,
+        completed_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  `, [job.id, JSON.stringify(result)]);
+}
+
+// Record a failed attempt: requeue with backoff, or fail the job and keep its payload in the failed-jobs store
+export async function failJob(
+  client: Client,
+  job: IngestJob,
+  error: unknown
+): Promise<{ status: 'queued'; retry_in_ms: number } | { status: 'failed' }> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!(error instanceof PermanentJobError) && job.attempts < job.max_attempts) {
+    const delayMs = retryDelayMs(job.attempts);
+    await client.query(`
+      UPDATE rag.ingest_jobs
+      SET status = 'queued',
+          run_after = CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond',
+          last_error = $3,
+          locked_at = NULL,
+          locked_by = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [job.id, delayMs, message]);
+    return { status: 'queued', retry_in_ms: delayMs };
+  }
+
+  await client.query(`
+    UPDATE rag.ingest_jobs
+    SET status = 'failed',
+        last_error = $2,
+        locked_at = NULL,
+        locked_by = NULL,
+        completed_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  `, [job.id, message]);
+
+  await storeFailedJob(job, message, error instanceof Error ? error.stack : undefined);
+  return { status: 'failed' };
+}
+
+async function storeFailedJob(job: IngestJob, message: string, stack?: string): Promise<void> {
+  try {
+    await getStore(FAILED_JOBS_STORE).setJSON(`${job.tenant_id}/${job.id}.json`, {
+      job_id: job.id,
+      tenant_id: job.tenant_id,
+      doc_id: job.doc_id,
+      idempotency_key: job.idempotency_key,
+      attempts: job.attempts,
+      payload: job.payload,
+      error: message,
+      stack,
+      failed_at: new Date().toISOString()
+    });
+  } catch (storeError) {
+    // The job row still records the failure
+    console.error(`Failed to store failed job ${job.id}:`, storeError);
+  }
+}
+
+export const WORKER_LOST_ERROR = 'Worker stopped before finishing the job';
+
+// Requeue running jobs, in every tenant the connection can see, whose worker stopped renewing
+// the lease; a job on its last attempt fails instead. One UPDATE, so a worker reclaiming the
+// same job at the same moment cannot be overwritten. Returns the jobs as updated.
+export async function requeueExpiredJobs(client: Client): Promise<IngestJob[]> {
+  const result = await client.query(`
+    UPDATE rag.ingest_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        run_after = CURRENT_TIMESTAMP,
+        last_error = $2,
+        locked_at = NULL,
+        locked_by = NULL,
+        completed_at = CASE WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE status = 'running' AND locked_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'
+    RETURNING *
+  `, [JOB_LEASE_MS, WORKER_LOST_ERROR]);
+
+  for (const job of result.rows as IngestJob[]) {
+    if (job.status === 'failed') {
+      await storeFailedJob(job, WORKER_LOST_ERROR);
+    }
+  }
+  return result.rows;
+}
+
+// Scheduled functions have no user token; they authenticate to background functions with INGEST_WORKER_SECRET
+export const WORKER_SECRET_HEADER = 'X-Worker-Secret';
+
+// Netlify runs a function as a background function (15 minutes, answered 202 at once) only when
+// its name ends in -background; the drain budget and job lease assume that
+const WORKER_FUNCTION = 'ingest-background';
+
+// Wake the background worker for the caller's tenant, or for every tenant (admin callers only).
+// The job is already durable, so a failed kick only delays it until the worker is next woken for the tenant.
+export async function wakeWorker(authorization: string, tenantId: string, options: { allTenants?: boolean } = {}): Promise<void> {
+  // The background function re-verifies the caller's token
+  await startBackgroundFunction(WORKER_FUNCTION, { 'Authorization': authorization }, {
+    tenant_id: tenantId,
+    ...(options.allTenants && { all_tenants: true })
+  });
+}
+
+// Wake the worker to drain every tenant's queue without a user, e.g. after nightly maintenance requeues jobs
+export async function wakeWorkerForAllTenants(): Promise<void> {
+  const secret = process.env.INGEST_WORKER_SECRET;
+  if (!secret) {
+    throw new Error('INGEST_WORKER_SECRET is not set; queued jobs wait until a user wakes the worker');
+  }
+  if (!await startBackgroundFunction(WORKER_FUNCTION, { [WORKER_SECRET_HEADER]: secret }, { all_tenants: true })) {
+    throw new Error('The ingest worker could not be started');
+  }
+}
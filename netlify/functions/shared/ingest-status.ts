@@ -0,0 +1,156 @@
+import { Client } from 'pg';
+
+// Document lifecycle, in order. metadata.status holds the current stage; metadata.ingestion
+// holds when each stage was reached, embedding progress and the last failure.
+export const INGEST_STAGES = [
+  'UPLOADED',
+  'QUEUED',
+  'PROCESSING',   // fetching the file and extracting text
+  'EXTRACTED',    // text extracted; chunking
+  'CHUNKED',      // chunks ready; embedding about to start
+  'EMBEDDING',    // progress.embedded of progress.total chunks stored
+  'INDEXED',      // every chunk stored, stale chunks removed
+  'READY',
+  'READY_WITH_WARNINGS',   // searchable, but some pages or chunks failed (see ingestion.warnings)
+  'ERROR'
+] as const;
+
+export type IngestStage = typeof INGEST_STAGES[number];
+
+export interface EmbeddingProgress {
+  total: number;
+  embedded: number;
+  failed: number;       // chunks whose embedding or insert failed
+}
+
+export interface IngestFailure {
+  stage: string;        // the stage the document was in when it failed
+  message: string;
+  at: string;
+  retry_at?: string;    // set while the job is queued for another attempt
+}
+
+export interface PageFailure {
+  page: number;         // 1-based
+  error: string;
+}
+
+export interface ChunkFailure {
+  chunk_index: number;
+  error: string;
+}
+
+// Pieces the last run could not ingest; the rest of the document is searchable
+export interface IngestWarnings {
+  failed_pages: PageFailure[];
+  failed_chunks: ChunkFailure[];
+}
+
+export interface IngestionState {
+  stages: Partial<Record<IngestStage, string>>;   // ISO timestamp each stage was reached
+  progress?: EmbeddingProgress;
+  error?: IngestFailure | null;
+  warnings?: IngestWarnings | null;
+  text_sha256?: string;   // of the cleaned text the chunks were cut from
+  job_id?: number;
+  attempt?: number;
+}
+
+const DOCUMENT_MATCH = `metadata->>'doc_id' = $1 AND tenant_id = $2`;
+
+// Move the document to a stage and stamp it. Extra fields (progress, job_id...) are merged into metadata.ingestion.
+export async function recordStage(
+  client: Client,
+  tenantId: string,
+  docId: string,
+  stage: IngestStage,
+  patch: Partial<Omit<IngestionState, 'stages'>> = {}
+): Promise<void> {
+  await client.query(`
+    UPDATE rag.documents
+    SET metadata = metadata || jsonb_build_object(
+          'status', $3::text,
+          'ingestion', COALESCE(metadata->'ingestion', '{}'::jsonb) || $4::jsonb || jsonb_build_object(
+            'stages', COALESCE(metadata->'ingestion'->'stages', '{}'::jsonb) || jsonb_build_object($3::text, $5::text)
+          )
+        ),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE ${DOCUMENT_MATCH}
+  `, [docId, tenantId, stage, JSON.stringify(patch), new Date().toISOString()]);
+}
+
+// A new ingestion run: keep the upload time, forget the previous run's stages, progress and error.
+// Warnings and the text hash stay until the run replaces them; a retry of failed pieces reads them.
+export async function restartIngestion(client: Client, tenantId: string, docId: string, jobId: number): Promise<void> {
+  const now = new Date().toISOString();
+  await client.query(`
+    UPDATE rag.documents
+    SET metadata = metadata || jsonb_build_object(
+          'status', 'QUEUED',
+          'ingestion', jsonb_build_object(
+            'stages', jsonb_strip_nulls(jsonb_build_object('UPLOADED', metadata->'ingestion'->'stages'->'UPLOADED', 'QUEUED', $3::text)),
+            'job_id', $4::bigint,
+            'error', NULL,
+            'warnings', metadata->'ingestion'->'warnings',
+            'text_sha256', metadata->'ingestion'->'text_sha256'
+          )
+        ),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE ${DOCUMENT_MATCH}
+  `, [docId, tenantId, now, jobId]);
+}
+
+// Keep the failure and the stage it happened in. With retryAt the document goes back to QUEUED, otherwise to ERROR.
+export async function recordFailure(
+  client: Client,
+  tenantId: string,
+  docId: string,
+  message: string,
+  retryAt?: Date
+): Promise<void> {
+  const now = new Date().toISOString();
+  const status: IngestStage = retryAt ? 'QUEUED' : 'ERROR';
+  await client.query(`
+    UPDATE rag.documents
+    SET metadata = metadata || jsonb_build_object(
+          'status', $3::text,
+          'ingestion', COALESCE(metadata->'ingestion', '{}'::jsonb) || jsonb_build_object(
+            'error', jsonb_strip_nulls(jsonb_build_object(
+              'stage', COALESCE(metadata->>'status', 'UNKNOWN'),
+              'message', $4::text,
+              'at', $5::text,
+              'retry_at', $6::text
+            )),
+            'stages', COALESCE(metadata->'ingestion'->'stages', '{}'::jsonb) || jsonb_build_object($3::text, $5::text)
+          )
+        ),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE ${DOCUMENT_MATCH}
+  `, [docId, tenantId, status, message, now, retryAt?.toISOString() ?? null]);
+}
+
+export function hasWarnings(warnings?: IngestWarnings | null): boolean {
+  return !!warnings && (warnings.failed_pages.length > 0 || warnings.failed_chunks.length > 0);
+}
+
+// Ingestion state from document metadata; documents ingested before stages were tracked have none
+export function ingestionState(metadata: Record<string, any>): IngestionState {
+  const state = metadata.ingestion ?? {};
+  return {
+    stages: state.stages ?? {},
+    progress: state.progress,
+    error: state.error ?? null,
+    warnings: state.warnings ?? null,
+    text_sha256: state.text_sha256,
+    job_id: state.job_id,
+    attempt: state.attempt
+  };
+}
+
+// Status line for people: "EMBEDDING 120/400"
+export function describeStatus(status: string, progress?: EmbeddingProgress): string {
+  if (status === 'EMBEDDING' && progress) {
+    return `EMBEDDING ${progress.embedded}/${progress.total}`;
+  }
+  return status;
+}
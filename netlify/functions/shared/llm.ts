@@ -0,0 +1,226 @@
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+
+// Width of rag.embeddings.embedding; every provider must produce vectors of this size
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  finishReason: string | null;
+  usage: ChatUsage | null;
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; finishReason: string | null; usage: ChatUsage | null };
+
+export interface LLMProvider {
+  name: string;
+  embeddingModel: string;   // recorded with every stored vector
+  chatModel: string;
+  embed(texts: string[]): Promise<number[][]>;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatStreamEvent>;
+}
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const DEFAULT_CHAT_MODEL = 'gpt-3.5-turbo';
+
+// OpenAI, or any server speaking the same API (vLLM, Ollama, LiteLLM, Azure proxies...)
+export function createOpenAIProvider(options: {
+  apiKey: string;
+  baseURL?: string;
+  embeddingModel?: string;
+  chatModel?: string;
+  name?: string;
+}): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const embeddingModel = options.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  const chatModel = options.chatModel || DEFAULT_CHAT_MODEL;
+
+  return {
+    name: options.name || 'openai',
+    embeddingModel,
+    chatModel,
+
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: embeddingModel,
+        input: texts,
+        encoding_format: 'float'
+      });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+
+    async chat(messages, chatOptions = {}) {
+      const completion = await client.chat.completions.create({
+        model: chatModel,
+        messages,
+        temperature: chatOptions.temperature ?? 0.1,
+        max_tokens: chatOptions.maxTokens ?? 1000
+      }, { signal: chatOptions.signal });
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        finishReason: completion.choices[0]?.finish_reason ?? null,
+        usage: completion.usage ?? null
+      };
+    },
+
+    async *chatStream(messages, chatOptions = {}) {
+      const stream = await client.chat.completions.create({
+        model: chatModel,
+        messages,
+        temperature: chatOptions.temperature ?? 0.1,
+        max_tokens: chatOptions.maxTokens ?? 1000,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: chatOptions.signal });
+
+      let finishReason: string | null = null;
+      let usage: ChatUsage | null = null;
+
+      for await (const part of stream) {
+        const content = part.choices[0]?.delta?.content;
+        if (content) {
+          yield { type: 'token', content };
+        }
+        finishReason = part.choices[0]?.finish_reason ?? finishReason;
+        // With include_usage the last part carries usage and no choices
+        if (part.usage) {
+          usage = part.usage;
+        }
+      }
+
+      yield { type: 'done', finishReason, usage };
+    }
+  };
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Feature hashing: each word adds ±1 to a hashed dimension, then the vector is normalised.
+// Texts sharing words get nearby vectors, so retrieval behaves sensibly offline.
+export function hashEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of words(text)) {
+    const digest = createHash('sha256').update(word).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+// Canned answer: quote the first sentence of the first cited passage in the system prompt
+function stubAnswer(messages: ChatMessage[]): string {
+  const system = messages.find(message => message.role === 'system')?.content ?? '';
+  const passage = system.match(/^\[1\](?: \([^)]*\))? (.+)$/m);
+  if (!passage) {
+    return "I couldn't find relevant information to answer that.";
+  }
+  const sentence = passage[1].match(/^.*?[.!?](?=\s|$)/)?.[0] ?? passage[1];
+  return `According to the source, ${sentence} [1]`;
+}
+
+function stubUsage(messages: ChatMessage[], answer: string): ChatUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + words(message.content).length, 0);
+  const completionTokens = words(answer).length;
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+// Deterministic offline provider for local development and tests; never touches the network
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    embeddingModel: `stub-hash-${EMBEDDING_DIMENSIONS}`,
+    chatModel: 'stub-chat',
+
+    async embed(texts) {
+      return texts.map(text => hashEmbedding(text));
+    },
+
+    async chat(messages) {
+      const content = stubAnswer(messages);
+      return { content, finishReason: 'stop', usage: stubUsage(messages, content) };
+    },
+
+    async *chatStream(messages, chatOptions = {}) {
+      const content = stubAnswer(messages);
+      for (const token of content.split(/(?<= )/)) {
+        if (chatOptions.signal?.aborted) {
+          throw new Error('Request was aborted.');
+        }
+        yield { type: 'token', content: token };
+      }
+      yield { type: 'done', finishReason: 'stop', usage: stubUsage(messages, content) };
+    }
+  };
+}
+
+// Size of the vectors the provider's embedding model produces, from one probe embedding.
+// Fails if the model does not exist or the provider cannot be reached.
+export async function embeddingDimensions(provider: LLMProvider): Promise<number> {
+  const [embedding] = await provider.embed(['dimension probe']);
+  return embedding?.length ?? 0;
+}
+
+// Pick the provider from configuration:
+//   LLM_PROVIDER       openai (default) | openai-compatible | stub
+//   OPENAI_API_KEY     for openai
+//   LLM_BASE_URL / LLM_API_KEY           for openai-compatible
+//   EMBEDDING_MODEL / CHAT_MODEL         override the default models
+// options.embeddingModel takes precedence over EMBEDDING_MODEL (re-indexing with another model).
+export function getProvider(options: { embeddingModel?: string } = {}): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || 'openai';
+  const embeddingModel = options.embeddingModel || process.env.EMBEDDING_MODEL;
+  const chatModel = process.env.CHAT_MODEL;
+
+  switch (provider) {
+    case 'stub':
+      return createStubProvider();
+
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL environment variable is required for the openai-compatible provider');
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        apiKey: process.env.LLM_API_KEY || 'unused',
+        baseURL: process.env.LLM_BASE_URL,
+        embeddingModel,
+        chatModel
+      });
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, embeddingModel, chatModel });
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
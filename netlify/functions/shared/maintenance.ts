@@ -0,0 +1,290 @@
+import { Client } from 'pg';
+import { getStore } from '@netlify/blobs';
+import { requeueExpiredJobs, enqueueIngestJob, WORKER_LOST_ERROR } from './ingest-queue';
+import { recordFailure, restartIngestion } from './ingest-status';
+import { DOCUMENT_BLOB_STORES } from './documents';
+
+// Nightly upkeep of the RAG store, run by background/maintenance.ts once the schedule starts it.
+// Every step runs under service scope and sees all tenants.
+
+export interface MaintenanceSettings {
+  retrievalLogRetentionDays: number;   // RETRIEVAL_LOG_RETENTION_DAYS
+  stuckIngestionMinutes: number;       // STUCK_INGESTION_MINUTES
+}
+
+const DEFAULT_RETRIEVAL_LOG_RETENTION_DAYS = 90;
+
+// Longer than the ingest job lease, so a live worker is never mistaken for a stuck one
+const DEFAULT_STUCK_INGESTION_MINUTES = 60;
+
+// An upload is stored before its document row is written; leave recent blobs alone
+const ORPHAN_BLOB_GRACE_MS = 24 * 60 * 60_000;
+
+// Stages in which a document is waiting on an ingest job
+const IN_PROGRESS_STAGES = ['QUEUED', 'PROCESSING', 'EXTRACTED', 'CHUNKED', 'EMBEDDING', 'INDEXED'];
+
+const IVFFLAT_INDEX = 'idx_embeddings_embedding';
+const IVFFLAT_REBUILD_INDEX = 'idx_embeddings_embedding_next';
+const MIN_IVFFLAT_LISTS = 10;
+const MAX_IVFFLAT_LISTS = 10_000;
+
+// Rebuild only when the current lists setting is off by this factor or more
+const IVFFLAT_RETUNE_FACTOR = 2;
+
+export function maintenanceSettings(env: Record<string, string | undefined> = process.env): MaintenanceSettings {
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value ?? '', 10);
+    return parsed > 0 ? parsed : fallback;
+  };
+  return {
+    retrievalLogRetentionDays: positive(env.RETRIEVAL_LOG_RETENTION_DAYS, DEFAULT_RETRIEVAL_LOG_RETENTION_DAYS),
+    stuckIngestionMinutes: positive(env.STUCK_INGESTION_MINUTES, DEFAULT_STUCK_INGESTION_MINUTES)
+  };
+}
+
+// Put ingestion that stopped making progress back on the queue. Jobs whose worker died are requeued
+// (or failed on their last attempt); documents left in a processing stage with no job get a new one.
+// The nightly job then wakes the worker for every tenant to run them.
+export async function requeueStuckIngestion(
+  client: Client,
+  stuckMinutes: number
+): Promise<{ jobs_requeued: number; jobs_failed: number; documents_requeued: number }> {
+  const expired = await requeueExpiredJobs(client);
+  for (const job of expired) {
+    await recordFailure(client, job.tenant_id, job.doc_id, WORKER_LOST_ERROR, job.status === 'queued' ? new Date() : undefined);
+  }
+
+  const stuck = await client.query(`
+    SELECT d.tenant_id, d.metadata->>'doc_id' AS doc_id
+    FROM rag.documents d
+    WHERE d.metadata->>'status' = ANY($1::text[])
+      AND d.updated_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 minute'
+      AND NOT EXISTS (
+        SELECT 1 FROM rag.ingest_jobs j
+        WHERE j.tenant_id = d.tenant_id
+          AND j.doc_id = d.metadata->>'doc_id'
+          AND j.status IN ('queued', 'running')
+      )
+  `, [IN_PROGRESS_STAGES, stuckMinutes]);
+
+  let documentsRequeued = 0;
+  for (const document of stuck.rows) {
+    const queued = await enqueueIngestJob(client, { tenantId: document.tenant_id, docId: document.doc_id });
+    if (queued.created) {
+      await restartIngestion(client, document.tenant_id, document.doc_id, queued.job.id);
+      documentsRequeued++;
+    }
+  }
+
+  return {
+    jobs_requeued: expired.filter(job => job.status === 'queued').length,
+    jobs_failed: expired.filter(job => job.status === 'failed').length,
+    documents_requeued: documentsRequeued
+  };
+}
+
+// Vectors whose document is gone, index versions abandoned mid-build, and chunks of versions
+// that are neither live nor being built
+export async function deleteOrphanedRows(
+  client: Client,
+  stuckMinutes: number
+): Promise<{ embeddings: number; abandoned_index_versions: number; chunks: number }> {
+  const embeddings = await client.query(`
+    DELETE FROM rag.embeddings e
+    WHERE e.document_id IS NULL
+      OR NOT EXISTS (SELECT 1 FROM rag.documents d WHERE d.id = e.document_id)
+  `);
+
+  const abandoned = await client.query(`
+    UPDATE rag.index_versions v
+    SET status = 'failed'
+    WHERE v.status = 'building'
+      AND v.created_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 minute'
+      AND NOT EXISTS (
+        SELECT 1 FROM rag.ingest_jobs j
+        JOIN rag.documents d ON d.tenant_id = j.tenant_id AND d.metadata->>'doc_id' = j.doc_id
+        WHERE d.id = v.doc_id AND j.status IN ('queued', 'running')
+      )
+  `, [stuckMinutes]);
+
+  // Embeddings go with their chunks (ON DELETE CASCADE)
+  const chunks = await client.query(`
+    DELETE FROM rag.chunks c
+    WHERE NOT EXISTS (
+      SELECT 1 FROM rag.index_versions v
+      WHERE v.doc_id = c.doc_id AND v.version = c.index_version AND v.status IN ('active', 'building')
+    )
+  `);
+
+  return {
+    embeddings: embeddings.rowCount ?? 0,
+    abandoned_index_versions: abandoned.rowCount ?? 0,
+    chunks: chunks.rowCount ?? 0
+  };
+}
+
+// "tenant/doc_id" of a document blob key
+function documentPrefix(key: string): string | null {
+  const [tenantId, docId] = key.split('/');
+  return tenantId && docId ? `${tenantId}/${docId}` : null;
+}
+
+// Delete uploads and extracted artifacts of documents that no longer exist
+export async function deleteOrphanedBlobs(client: Client, now: number = Date.now()): Promise<Record<string, number>> {
+  const deleted: Record<string, number> = {};
+
+  for (const storeName of DOCUMENT_BLOB_STORES) {
+    const store = getStore(storeName);
+    const keys: string[] = [];
+    for await (const page of store.list({ paginate: true })) {
+      keys.push(...page.blobs.map(blob => blob.key));
+    }
+
+    const prefixes = [...new Set(keys.map(documentPrefix).filter((prefix): prefix is string => prefix !== null))];
+    const existing = await client.query(`
+      SELECT tenant_id || '/' || (metadata->>'doc_id') AS prefix
+      FROM rag.documents
+      WHERE tenant_id || '/' || (metadata->>'doc_id') = ANY($1::text[])
+    `, [prefixes]);
+    const live = new Set(existing.rows.map(row => row.prefix));
+
+    deleted[storeName] = 0;
+    for (const key of keys) {
+      const prefix = documentPrefix(key);
+      if (!prefix || live.has(prefix)) continue;
+
+      // Blobs stored before uploads were timestamped count as old
+      const uploadedAt = Date.parse((await store.getMetadata(key))?.metadata?.uploaded_at as string ?? '');
+      if (now - uploadedAt < ORPHAN_BLOB_GRACE_MS) continue;
+
+      await store.delete(key);
+      deleted[storeName]++;
+    }
+  }
+
+  return deleted;
+}
+
+// pgvector's guidance: rows / 1000 lists up to a million rows, sqrt(rows) beyond
+export function targetIvfflatLists(rows: number): number {
+  const lists = rows <= 1_000_000 ? rows / 1000 : Math.sqrt(rows);
+  return Math.min(Math.max(Math.round(lists), MIN_IVFFLAT_LISTS), MAX_IVFFLAT_LISTS);
+}
+
+// Rebuild the vector index with a lists setting that fits the table. The new index is built
+// concurrently beside the old one and swapped in, so searches keep an index throughout.
+export async function tuneIvfflatIndex(
+  client: Client
+): Promise<{ rows: number; lists: number | null; target_lists: number; rebuilt: boolean }> {
+  const count = await client.query('SELECT COUNT(*) AS rows FROM rag.embeddings');
+  const rows = parseInt(count.rows[0].rows, 10) || 0;
+  const target = targetIvfflatLists(rows);
+
+  const options = await client.query(`
+    SELECT c.reloptions
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'rag' AND c.relname = $1
+  `, [IVFFLAT_INDEX]);
+  const setting = (options.rows[0]?.reloptions as string[] | null)?.find(option => option.startsWith('lists='));
+  const lists = setting ? parseInt(setting.slice('lists='.length), 10) : null;
+
+  const offBy = lists ? Math.max(target / lists, lists / target) : Infinity;
+  if (rows === 0 || offBy < IVFFLAT_RETUNE_FACTOR) {
+    return { rows, lists, target_lists: target, rebuilt: false };
+  }
+
+  // A rebuild interrupted on an earlier night leaves an invalid index behind
+  await client.query(`DROP INDEX IF EXISTS rag.${IVFFLAT_REBUILD_INDEX}`);
+  await client.query(`
+    CREATE INDEX CONCURRENTLY ${IVFFLAT_REBUILD_INDEX}
+    ON rag.embeddings USING ivfflat (embedding vector_cosine_ops)
+    WITH (lists = ${target})
+  `);
+  await client.query('BEGIN');
+  try {
+    await client.query(`DROP INDEX IF EXISTS rag.${IVFFLAT_INDEX}`);
+    await client.query(`ALTER INDEX rag.${IVFFLAT_REBUILD_INDEX} RENAME TO ${IVFFLAT_INDEX}`);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  return { rows, lists, target_lists: target, rebuilt: true };
+}
+
+// UTC calendar day, "YYYY-MM-DD"
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// Roll complete UTC days not yet rolled up into rag.usage_daily, at most retentionDays back.
+// Must run before retrieval logs are pruned.
+export async function rollUpUsage(
+  client: Client,
+  retentionDays: number,
+  now: number = Date.now()
+): Promise<{ from: string; to: string; rows: number }> {
+  const last = await client.query(`SELECT to_char(MAX(day), 'YYYY-MM-DD') AS day FROM rag.usage_daily`);
+  const today = utcDay(now);
+  const earliest = utcDay(now - retentionDays * DAY_MS);
+  const next = last.rows[0]?.day ? utcDay(Date.parse(`${last.rows[0].day}T00:00:00Z`) + DAY_MS) : earliest;
+  const from = next > earliest ? next : earliest;
+
+  if (from >= today) {
+    return { from, to: today, rows: 0 };
+  }
+
+  const result = await client.query(`
+    INSERT INTO rag.usage_daily (
+      tenant_id, day, queries, avg_latency_ms, p95_latency_ms,
+      documents_uploaded, ingest_jobs_succeeded, ingest_jobs_failed
+    )
+    SELECT tenant_id, day,
+      SUM(queries), MAX(avg_latency_ms), MAX(p95_latency_ms),
+      SUM(documents_uploaded), SUM(jobs_succeeded), SUM(jobs_failed)
+    FROM (
+      SELECT tenant_id, (created_at AT TIME ZONE 'UTC')::date AS day,
+        COUNT(*) AS queries,
+        ROUND(AVG(latency_ms)) AS avg_latency_ms,
+        ROUND(percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms)) AS p95_latency_ms,
+        0 AS documents_uploaded, 0 AS jobs_succeeded, 0 AS jobs_failed
+      FROM rag.retrieval_logs
+      WHERE tenant_id IS NOT NULL AND created_at >= $1::timestamptz AND created_at < $2::timestamptz
+      GROUP BY 1, 2
+      UNION ALL
+      SELECT tenant_id, (created_at AT TIME ZONE 'UTC')::date, 0, NULL, NULL, COUNT(*), 0, 0
+      FROM rag.documents
+      WHERE created_at >= $1::timestamptz AND created_at < $2::timestamptz
+      GROUP BY 1, 2
+      UNION ALL
+      SELECT tenant_id, (completed_at AT TIME ZONE 'UTC')::date, 0, NULL, NULL, 0,
+        COUNT(*) FILTER (WHERE status = 'succeeded'),
+        COUNT(*) FILTER (WHERE status = 'failed')
+      FROM rag.ingest_jobs
+      WHERE completed_at >= $1::timestamptz AND completed_at < $2::timestamptz
+      GROUP BY 1, 2
+    ) daily
+    GROUP BY tenant_id, day
+    ON CONFLICT (tenant_id, day) DO UPDATE SET
+      queries = EXCLUDED.queries,
+      avg_latency_ms = EXCLUDED.avg_latency_ms,
+      p95_latency_ms = EXCLUDED.p95_latency_ms,
+      documents_uploaded = EXCLUDED.documents_uploaded,
+      ingest_jobs_succeeded = EXCLUDED.ingest_jobs_succeeded,
+      ingest_jobs_failed = EXCLUDED.ingest_jobs_failed,
+      updated_at = CURRENT_TIMESTAMP
+  `, [`${from}T00:00:00Z`, `${today}T00:00:00Z`]);
+
+  return { from, to: today, rows: result.rowCount ?? 0 };
+}
+
+export async function pruneRetrievalLogs(client: Client, retentionDays: number): Promise<number> {
+  const result = await client.query(
+    'DELETE FROM rag.retrieval_logs WHERE created_at < CURRENT_TIMESTAMP - $1 * INTERVAL \'1 day\'',
+    [retentionDays]
+  );
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,66 @@
+import { Migration } from '../migrator';
+
+// Baseline: the schema db-migrate created before migrations were versioned.
+// Every statement is idempotent so databases created by the old endpoint adopt it cleanly.
+export const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  statements: [
+    'CREATE SCHEMA IF NOT EXISTS core',
+    'CREATE SCHEMA IF NOT EXISTS rag',
+    'CREATE EXTENSION IF NOT EXISTS vector',
+
+    `CREATE TABLE IF NOT EXISTS core.users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) UNIQUE NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      role VARCHAR(50) DEFAULT 'student',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS rag.documents (
+      id SERIAL PRIMARY KEY,
+      title VARCHAR(500) NOT NULL,
+      content TEXT NOT NULL,
+      embedding VECTOR(1536),
+      metadata JSONB DEFAULT '{}',
+      source_url VARCHAR(1000),
+      document_type VARCHAR(100) DEFAULT 'text',
+      created_by INTEGER REFERENCES core.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS rag.embeddings (
+      id SERIAL PRIMARY KEY,
+      document_id INTEGER REFERENCES rag.documents(id) ON DELETE CASCADE,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      content_hash VARCHAR(64) UNIQUE,
+      embedding VECTOR(1536),
+      token_count INTEGER,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS rag.retrieval_logs (
+      id SERIAL PRIMARY KEY,
+      request_id VARCHAR(36) UNIQUE NOT NULL,
+      query_text TEXT NOT NULL,
+      chunk_ids INTEGER[] NOT NULL,
+      latency_ms INTEGER NOT NULL,
+      doc_id VARCHAR(255),
+      top_k INTEGER DEFAULT 5,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    'CREATE INDEX IF NOT EXISTS idx_embeddings_document_id ON rag.embeddings(document_id)',
+    `CREATE INDEX IF NOT EXISTS idx_embeddings_embedding
+      ON rag.embeddings USING ivfflat (embedding vector_cosine_ops)
+      WITH (lists = 100)`,
+    'CREATE INDEX IF NOT EXISTS idx_documents_created_by ON rag.documents(created_by)',
+    'CREATE INDEX IF NOT EXISTS idx_documents_document_type ON rag.documents(document_type)',
+    'CREATE INDEX IF NOT EXISTS idx_retrieval_logs_request_id ON rag.retrieval_logs(request_id)',
+    'CREATE INDEX IF NOT EXISTS idx_retrieval_logs_created_at ON rag.retrieval_logs(created_at)'
+  ]
+};
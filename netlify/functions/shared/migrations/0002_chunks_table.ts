@@ -0,0 +1,80 @@
+import { Migration } from '../migrator';
+
+// Chunk text and provenance move to rag.chunks; rag.embeddings keeps one vector per chunk per model.
+// The old globally unique content_hash let identical paragraphs in two documents overwrite each other.
+export const migration: Migration = {
+  version: 2,
+  name: 'chunks_table',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rag.chunks (
+      id SERIAL PRIMARY KEY,
+      doc_id INTEGER NOT NULL REFERENCES rag.documents(id) ON DELETE CASCADE,
+      chunk_id INTEGER NOT NULL,
+      section VARCHAR(500),
+      page_from INTEGER,
+      page_to INTEGER,
+      token_start INTEGER,
+      token_end INTEGER,
+      token_count INTEGER,
+      sha256 VARCHAR(64) NOT NULL,
+      text TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (doc_id, chunk_id)
+    )`,
+
+    // Copy chunk text out of legacy rag.embeddings rows, then drop the moved columns
+    `DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'rag' AND table_name = 'embeddings' AND column_name = 'content'
+      ) THEN
+        ALTER TABLE rag.embeddings
+          ADD COLUMN IF NOT EXISTS chunk_id INTEGER REFERENCES rag.chunks(id) ON DELETE CASCADE,
+          ADD COLUMN IF NOT EXISTS model VARCHAR(100),
+          ADD COLUMN IF NOT EXISTS dims INTEGER,
+          ADD COLUMN IF NOT EXISTS start_token INTEGER,
+          ADD COLUMN IF NOT EXISTS end_token INTEGER,
+          ADD COLUMN IF NOT EXISTS section VARCHAR(500),
+          ADD COLUMN IF NOT EXISTS page_from INTEGER,
+          ADD COLUMN IF NOT EXISTS page_to INTEGER,
+          ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+        INSERT INTO rag.chunks (doc_id, chunk_id, section, page_from, page_to, token_start, token_end, token_count, sha256, text)
+        SELECT document_id, chunk_index, section, page_from, page_to, start_token, end_token, token_count,
+               COALESCE(content_hash, encode(sha256(convert_to(content, 'UTF8')), 'hex')), content
+        FROM rag.embeddings
+        WHERE document_id IS NOT NULL
+        ON CONFLICT (doc_id, chunk_id) DO NOTHING;
+
+        UPDATE rag.embeddings e
+        SET chunk_id = c.id,
+            model = COALESCE(e.model, 'text-embedding-3-small'),
+            dims = COALESCE(e.dims, 1536)
+        FROM rag.chunks c
+        WHERE c.doc_id = e.document_id AND c.chunk_id = e.chunk_index;
+
+        DELETE FROM rag.embeddings WHERE chunk_id IS NULL;
+
+        ALTER TABLE rag.embeddings
+          DROP COLUMN content,
+          DROP COLUMN content_hash,
+          DROP COLUMN chunk_index,
+          DROP COLUMN token_count,
+          DROP COLUMN start_token,
+          DROP COLUMN end_token,
+          DROP COLUMN section,
+          DROP COLUMN page_from,
+          DROP COLUMN page_to,
+          ALTER COLUMN chunk_id SET NOT NULL,
+          ALTER COLUMN model SET NOT NULL,
+          ALTER COLUMN dims SET NOT NULL;
+      END IF;
+    END $$`,
+
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_embeddings_chunk_model ON rag.embeddings(chunk_id, model)',
+    // Embedding cache lookups are by content hash (+ model on the embeddings side)
+    'CREATE INDEX IF NOT EXISTS idx_chunks_sha256 ON rag.chunks(sha256)'
+  ]
+};
@@ -0,0 +1,45 @@
+import { Migration } from '../migrator';
+
+// tenant_id becomes a real column (it used to live only in documents.metadata) and
+// Row-Level Security limits every tenant-owned table to the tenant set on the connection.
+// Connections scope themselves with set_config('app.tenant_id', ...); maintenance jobs use
+// app.tenant_scope = 'all' (see shared/tenant.ts).
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+const TENANT_TABLES = ['rag.documents', 'rag.chunks', 'rag.embeddings', 'rag.retrieval_logs'];
+
+export const migration: Migration = {
+  version: 3,
+  name: 'tenant_isolation',
+  statements: [
+    'ALTER TABLE rag.documents ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(64)',
+    `UPDATE rag.documents SET tenant_id = COALESCE(metadata->>'tenant_id', 'unassigned') WHERE tenant_id IS NULL`,
+    'ALTER TABLE rag.documents ALTER COLUMN tenant_id SET NOT NULL',
+
+    'ALTER TABLE rag.chunks ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(64)',
+    `UPDATE rag.chunks c SET tenant_id = d.tenant_id
+      FROM rag.documents d WHERE c.doc_id = d.id AND c.tenant_id IS NULL`,
+    'ALTER TABLE rag.chunks ALTER COLUMN tenant_id SET NOT NULL',
+
+    'ALTER TABLE rag.embeddings ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(64)',
+    `UPDATE rag.embeddings e SET tenant_id = c.tenant_id
+      FROM rag.chunks c WHERE e.chunk_id = c.id AND e.tenant_id IS NULL`,
+    'ALTER TABLE rag.embeddings ALTER COLUMN tenant_id SET NOT NULL',
+
+    // Older log rows have no tenant and become invisible under RLS
+    'ALTER TABLE rag.retrieval_logs ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(64)',
+
+    'CREATE INDEX IF NOT EXISTS idx_documents_tenant_id ON rag.documents(tenant_id, id)',
+    'CREATE INDEX IF NOT EXISTS idx_chunks_tenant_doc ON rag.chunks(tenant_id, doc_id)',
+    'CREATE INDEX IF NOT EXISTS idx_embeddings_tenant_id ON rag.embeddings(tenant_id)',
+    'CREATE INDEX IF NOT EXISTS idx_retrieval_logs_tenant_id ON rag.retrieval_logs(tenant_id, created_at)',
+
+    ...TENANT_TABLES.flatMap(table => [
+      `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`,
+      // Apply policies to the table owner too; functions connect as the owner
+      `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`,
+      `CREATE POLICY tenant_isolation ON ${table} USING (${POLICY}) WITH CHECK (${POLICY})`
+    ])
+  ]
+};
@@ -0,0 +1,16 @@
+import { Migration } from '../migrator';
+
+// Full-text index over chunk text for keyword and hybrid retrieval (shared/retrieval.ts).
+// Section headings weigh more than body text so "chapter 7" finds the chapter's chunks first.
+export const migration: Migration = {
+  version: 4,
+  name: 'chunk_search',
+  statements: [
+    `ALTER TABLE rag.chunks ADD COLUMN IF NOT EXISTS search_tsv TSVECTOR
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(section, '')), 'A') ||
+        setweight(to_tsvector('english', text), 'B')
+      ) STORED`,
+    'CREATE INDEX IF NOT EXISTS idx_chunks_search_tsv ON rag.chunks USING GIN (search_tsv)'
+  ]
+};
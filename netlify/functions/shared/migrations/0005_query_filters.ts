@@ -0,0 +1,20 @@
+import { Migration } from '../migrator';
+
+// Columns behind the rag-query filters: chapter/section ordinals on chunks and TEKS codes on documents.
+// Backfill only recognises digit section numbers ("Chapter 3"); re-ingesting fills spelled-out and roman ones.
+export const migration: Migration = {
+  version: 5,
+  name: 'query_filters',
+  statements: [
+    'ALTER TABLE rag.chunks ADD COLUMN IF NOT EXISTS section_number INTEGER',
+    `UPDATE rag.chunks
+      SET section_number = substring(lower(section) from '^\\s*(?:(?:chapter|part|book|section|unit|lesson)\\s+)?(\\d{1,6})')::INTEGER
+      WHERE section IS NOT NULL AND section_number IS NULL`,
+    'CREATE INDEX IF NOT EXISTS idx_chunks_doc_section_number ON rag.chunks(doc_id, section_number)',
+
+    // Texas Essential Knowledge and Skills codes, e.g. '6.6(B)'
+    `ALTER TABLE rag.documents ADD COLUMN IF NOT EXISTS teks_codes TEXT[] NOT NULL DEFAULT '{}'`,
+    'CREATE INDEX IF NOT EXISTS idx_documents_teks_codes ON rag.documents USING GIN (teks_codes)',
+    'CREATE INDEX IF NOT EXISTS idx_documents_tenant_created_at ON rag.documents(tenant_id, created_at)'
+  ]
+};
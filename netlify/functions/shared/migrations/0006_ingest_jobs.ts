@@ -0,0 +1,42 @@
+import { Migration } from '../migrator';
+
+// Durable ingestion queue. Jobs are claimed with FOR UPDATE SKIP LOCKED (see shared/ingest-queue.ts);
+// a tenant's jobs run in id order, and a document has at most one queued or running job.
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+export const migration: Migration = {
+  version: 6,
+  name: 'ingest_jobs',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rag.ingest_jobs (
+      id BIGSERIAL PRIMARY KEY,
+      tenant_id VARCHAR(64) NOT NULL,
+      doc_id VARCHAR(255) NOT NULL,
+      idempotency_key VARCHAR(255),
+      status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 5,
+      run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      locked_at TIMESTAMP WITH TIME ZONE,
+      locked_by VARCHAR(100),
+      last_error TEXT,
+      payload JSONB NOT NULL DEFAULT '{}',
+      result JSONB,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP WITH TIME ZONE
+    )`,
+    // Same key from the same tenant returns the existing job instead of queueing another
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_ingest_jobs_idempotency ON rag.ingest_jobs(tenant_id, idempotency_key)',
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_ingest_jobs_active_doc ON rag.ingest_jobs(tenant_id, doc_id)
+      WHERE status IN ('queued', 'running')`,
+    `CREATE INDEX IF NOT EXISTS idx_ingest_jobs_claim ON rag.ingest_jobs(tenant_id, id)
+      WHERE status IN ('queued', 'running')`,
+
+    'ALTER TABLE rag.ingest_jobs ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE rag.ingest_jobs FORCE ROW LEVEL SECURITY',
+    `CREATE POLICY tenant_isolation ON rag.ingest_jobs USING (${POLICY}) WITH CHECK (${POLICY})`
+  ]
+};
@@ -0,0 +1,60 @@
+import { Migration } from '../migrator';
+
+// Versioned chunk indexes. Each ingestion or re-index run writes its chunks under a new
+// index_version and records the embedding model and chunk settings that produced them;
+// documents.active_index_version switches to it only once the run is done (shared/index-versions.ts).
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+export const migration: Migration = {
+  version: 7,
+  name: 'index_versions',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rag.index_versions (
+      id SERIAL PRIMARY KEY,
+      tenant_id VARCHAR(64) NOT NULL,
+      doc_id INTEGER NOT NULL REFERENCES rag.documents(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'building'
+        CHECK (status IN ('building', 'active', 'retired', 'failed')),
+      embedding_model VARCHAR(100) NOT NULL,
+      chunk_max_tokens INTEGER NOT NULL,
+      chunk_overlap_tokens INTEGER NOT NULL,
+      text_sha256 VARCHAR(64),
+      chunks_count INTEGER,
+      job_id BIGINT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      activated_at TIMESTAMP WITH TIME ZONE,
+      retired_at TIMESTAMP WITH TIME ZONE,
+      UNIQUE (doc_id, version)
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_index_versions_tenant_status ON rag.index_versions(tenant_id, status)',
+
+    // NULL until the document's first index is complete, so a half-built one is never searched
+    'ALTER TABLE rag.documents ADD COLUMN IF NOT EXISTS active_index_version INTEGER',
+    'ALTER TABLE rag.chunks ADD COLUMN IF NOT EXISTS index_version INTEGER NOT NULL DEFAULT 1',
+    'ALTER TABLE rag.chunks DROP CONSTRAINT IF EXISTS chunks_doc_id_chunk_id_key',
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_chunks_doc_version_chunk ON rag.chunks(doc_id, index_version, chunk_id)',
+
+    // Existing chunks become version 1, built with the chunker defaults of the time (700/120 tokens)
+    `INSERT INTO rag.index_versions (
+      tenant_id, doc_id, version, status, embedding_model, chunk_max_tokens, chunk_overlap_tokens,
+      text_sha256, chunks_count, activated_at
+    )
+    SELECT d.tenant_id, d.id, 1, 'active',
+      COALESCE((SELECT e.model FROM rag.embeddings e WHERE e.document_id = d.id LIMIT 1), 'text-embedding-3-small'),
+      700, 120,
+      d.metadata->'ingestion'->>'text_sha256',
+      (SELECT COUNT(*) FROM rag.chunks c WHERE c.doc_id = d.id),
+      CURRENT_TIMESTAMP
+    FROM rag.documents d
+    WHERE EXISTS (SELECT 1 FROM rag.chunks c WHERE c.doc_id = d.id)
+    ON CONFLICT (doc_id, version) DO NOTHING`,
+    `UPDATE rag.documents d SET active_index_version = 1
+      WHERE active_index_version IS NULL AND EXISTS (SELECT 1 FROM rag.chunks c WHERE c.doc_id = d.id)`,
+
+    'ALTER TABLE rag.index_versions ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE rag.index_versions FORCE ROW LEVEL SECURITY',
+    `CREATE POLICY tenant_isolation ON rag.index_versions USING (${POLICY}) WITH CHECK (${POLICY})`
+  ]
+};
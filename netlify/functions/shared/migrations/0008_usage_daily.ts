@@ -0,0 +1,30 @@
+import { Migration } from '../migrator';
+
+// Per-tenant daily usage, rolled up from retrieval_logs, documents and ingest_jobs by the nightly
+// maintenance job (shared/maintenance.ts) so it outlives retrieval log retention.
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+export const migration: Migration = {
+  version: 8,
+  name: 'usage_daily',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rag.usage_daily (
+      tenant_id VARCHAR(64) NOT NULL,
+      day DATE NOT NULL,
+      queries INTEGER NOT NULL DEFAULT 0,
+      avg_latency_ms INTEGER,
+      p95_latency_ms INTEGER,
+      documents_uploaded INTEGER NOT NULL DEFAULT 0,
+      ingest_jobs_succeeded INTEGER NOT NULL DEFAULT 0,
+      ingest_jobs_failed INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (tenant_id, day)
+    )`,
+
+    'ALTER TABLE rag.usage_daily ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE rag.usage_daily FORCE ROW LEVEL SECURITY',
+    `CREATE POLICY tenant_isolation ON rag.usage_daily USING (${POLICY}) WITH CHECK (${POLICY})`
+  ]
+};
@@ -0,0 +1,49 @@
+import { Migration } from '../migrator';
+
+// Shared state for request rate limits and daily LLM token quotas (shared/rate-limit.ts).
+// tenant_quotas holds per-tenant overrides of the defaults in code.
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+const QUOTA_TABLES = ['rag.rate_limit_buckets', 'rag.tenant_quotas', 'rag.llm_token_usage'];
+
+export const migration: Migration = {
+  version: 9,
+  name: 'rate_limits',
+  statements: [
+    // One token bucket per tenant and route
+    `CREATE TABLE IF NOT EXISTS rag.rate_limit_buckets (
+      tenant_id VARCHAR(64) NOT NULL,
+      route VARCHAR(50) NOT NULL,
+      tokens DOUBLE PRECISION NOT NULL,
+      last_allowed BOOLEAN NOT NULL DEFAULT TRUE,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (tenant_id, route)
+    )`,
+
+    // route_limits: {"rag-query": {"capacity": 40, "refill_per_minute": 20}, ...}; NULL daily_llm_tokens uses the default
+    `CREATE TABLE IF NOT EXISTS rag.tenant_quotas (
+      tenant_id VARCHAR(64) PRIMARY KEY,
+      route_limits JSONB NOT NULL DEFAULT '{}',
+      daily_llm_tokens BIGINT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    // Chat tokens used per UTC day
+    `CREATE TABLE IF NOT EXISTS rag.llm_token_usage (
+      tenant_id VARCHAR(64) NOT NULL,
+      day DATE NOT NULL,
+      tokens BIGINT NOT NULL DEFAULT 0,
+      requests INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (tenant_id, day)
+    )`,
+
+    ...QUOTA_TABLES.flatMap(table => [
+      `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`,
+      `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`,
+      `CREATE POLICY tenant_isolation ON ${table} USING (${POLICY}) WITH CHECK (${POLICY})`
+    ])
+  ]
+};
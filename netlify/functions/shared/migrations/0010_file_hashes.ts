@@ -0,0 +1,18 @@
+import { Migration } from '../migrator';
+
+// Uploads are identified by the sha256 of the file. A re-upload of the same file returns the existing
+// document unless a new version is asked for; file_version numbers the copies of one file in a tenant.
+// Documents uploaded before this migration have no hash and are never matched.
+export const migration: Migration = {
+  version: 10,
+  name: 'file_hashes',
+  statements: [
+    `ALTER TABLE rag.documents
+      ADD COLUMN IF NOT EXISTS file_sha256 VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS file_version INTEGER NOT NULL DEFAULT 1`,
+    // Also what keeps two concurrent uploads of one file from both creating version 1
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_file_sha256
+      ON rag.documents (tenant_id, file_sha256, file_version)
+      WHERE file_sha256 IS NOT NULL`
+  ]
+};
@@ -0,0 +1,57 @@
+import { Migration } from '../migrator';
+
+// Resumable uploads (shared/upload-sessions.ts). A session describes the file being sent; each part
+// lands in the upload-parts Blob store and is recorded in upload_parts until the session is completed,
+// aborted or expires.
+const POLICY = `tenant_id = current_setting('app.tenant_id', true)
+  OR current_setting('app.tenant_scope', true) = 'all'`;
+
+const UPLOAD_TABLES = ['rag.upload_sessions', 'rag.upload_parts'];
+
+export const migration: Migration = {
+  version: 11,
+  name: 'upload_sessions',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rag.upload_sessions (
+      id UUID PRIMARY KEY,
+      tenant_id VARCHAR(64) NOT NULL,
+      created_by VARCHAR(255) NOT NULL,
+      filename VARCHAR(255) NOT NULL,
+      mimetype VARCHAR(100) NOT NULL,
+      title VARCHAR(500) NOT NULL,
+      document_type VARCHAR(100) NOT NULL,
+      teks_codes TEXT[] NOT NULL DEFAULT '{}',
+      new_version BOOLEAN NOT NULL DEFAULT FALSE,
+      total_size BIGINT NOT NULL,
+      part_size INTEGER NOT NULL,
+      part_count INTEGER NOT NULL,
+      sha256 VARCHAR(64) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'completing', 'completed', 'aborted', 'expired')),
+      doc_id VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      completed_at TIMESTAMP WITH TIME ZONE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_upload_sessions_expiry
+      ON rag.upload_sessions (expires_at)
+      WHERE status IN ('open', 'completing')`,
+
+    `CREATE TABLE IF NOT EXISTS rag.upload_parts (
+      session_id UUID NOT NULL REFERENCES rag.upload_sessions(id) ON DELETE CASCADE,
+      tenant_id VARCHAR(64) NOT NULL,
+      part_number INTEGER NOT NULL,
+      size INTEGER NOT NULL,
+      sha256 VARCHAR(64) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (session_id, part_number)
+    )`,
+
+    ...UPLOAD_TABLES.flatMap(table => [
+      `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`,
+      `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`,
+      `CREATE POLICY tenant_isolation ON ${table} USING (${POLICY}) WITH CHECK (${POLICY})`
+    ])
+  ]
+};
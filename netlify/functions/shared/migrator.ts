@@ -0,0 +1,164 @@
+import { Client } from 'pg';
+import { createHash } from 'crypto';
+import { migration as initialSchema } from './migrations/0001_initial_schema';
+import { migration as chunksTable } from './migrations/0002_chunks_table';
+import { migration as tenantIsolation } from './migrations/0003_tenant_isolation';
+import { migration as chunkSearch } from './migrations/0004_chunk_search';
+import { migration as queryFilters } from './migrations/0005_query_filters';
+import { migration as ingestJobs } from './migrations/0006_ingest_jobs';
+import { migration as indexVersions } from './migrations/0007_index_versions';
+import { migration as usageDaily } from './migrations/0008_usage_daily';
+import { migration as rateLimits } from './migrations/0009_rate_limits';
+import { migration as fileHashes } from './migrations/0010_file_hashes';
+import { migration as uploadSessions } from './migrations/0011_upload_sessions';
+import { setServiceScope } from './tenant';
+
+// A forward-only schema change. Applied migrations must never be edited; add a new one instead.
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  checksum: string;
+}
+
+export interface MigrationResult {
+  dry_run: boolean;
+  applied: MigrationStep[];
+  pending: MigrationStep[];
+  already_applied: number;
+}
+
+// Registered migrations, in order
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  chunksTable,
+  tenantIsolation,
+  chunkSearch,
+  queryFilters,
+  ingestJobs,
+  indexVersions,
+  usageDaily,
+  rateLimits,
+  fileHashes,
+  uploadSessions
+];
+
+// Arbitrary constant shared by every db-migrate invocation
+const MIGRATION_LOCK_KEY = 727_001;
+
+export class MigrationLockedError extends Error {
+  constructor() {
+    super('Another migration run is in progress');
+    this.name = 'MigrationLockedError';
+  }
+}
+
+export class MigrationChecksumError extends Error {
+  constructor(public readonly versions: number[]) {
+    super(`Applied migrations were modified after they ran: ${versions.join(', ')}`);
+    this.name = 'MigrationChecksumError';
+  }
+}
+
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.statements.join('\n;\n')).digest('hex');
+}
+
+function toStep(migration: Migration): MigrationStep {
+  return { version: migration.version, name: migration.name, checksum: migrationChecksum(migration) };
+}
+
+async function ensureLedger(client: Client): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+// Apply pending migrations in version order, each in its own transaction.
+// With dryRun, only report what would run.
+export async function runMigrations(
+  client: Client,
+  options: { dryRun?: boolean; migrations?: Migration[] } = {}
+): Promise<MigrationResult> {
+  const dryRun = options.dryRun ?? false;
+  const migrations = [...(options.migrations ?? MIGRATIONS)].sort((a, b) => a.version - b.version);
+
+  const lockResult = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+  if (!lockResult.rows[0].locked) {
+    throw new MigrationLockedError();
+  }
+
+  try {
+    // Data migrations must see every tenant's rows once RLS is on
+    await setServiceScope(client);
+    await ensureLedger(client);
+
+    const ledger = await client.query('SELECT version, checksum FROM schema_migrations');
+    const appliedChecksums = new Map<number, string>(
+      ledger.rows.map(row => [Number(row.version), row.checksum])
+    );
+
+    const modified = migrations
+      .filter(m => appliedChecksums.has(m.version) && appliedChecksums.get(m.version) !== migrationChecksum(m))
+      .map(m => m.version);
+    if (modified.length > 0) {
+      throw new MigrationChecksumError(modified);
+    }
+
+    const pending = migrations.filter(m => !appliedChecksums.has(m.version));
+
+    if (dryRun) {
+      return {
+        dry_run: true,
+        applied: [],
+        pending: pending.map(toStep),
+        already_applied: appliedChecksums.size
+      };
+    }
+
+    const applied: MigrationStep[] = [];
+
+    for (const migration of pending) {
+      const step = toStep(migration);
+      console.log(`Applying migration ${migration.version}_${migration.name}`);
+
+      await client.query('BEGIN');
+      try {
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [step.version, step.name, step.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(
+          `Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      applied.push(step);
+    }
+
+    return {
+      dry_run: false,
+      applied,
+      pending: [],
+      already_applied: appliedChecksums.size
+    };
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+  }
+}
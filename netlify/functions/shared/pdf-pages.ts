@@ -0,0 +1,81 @@
+// Page-level cleanup for PDF text: running headers/footers, page numbers, hyphenation
+
+// How many non-empty lines at each page edge are header/footer candidates
+const EDGE_LINES = 2;
+
+// A line must repeat on this share of pages (and at least MIN_REPEAT_PAGES) to count as running text
+const REPEAT_RATIO = 0.5;
+const MIN_REPEAT_PAGES = 3;
+
+// "12", "- 12 -", "Page 12", "Page 12 of 300", "xii"
+const PAGE_NUMBER_PATTERN = /^[-–—\s]*(page\s+)?(\d+|(?=[ivxlcdm])m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3}))(\s+of\s+\d+)?[-–—\s]*$/i;
+
+// Render a pdf.js page into lines, breaking wherever the baseline changes
+export async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+// Digits vary between pages ("The Hobbit 42" / "The Hobbit 43"), so compare without them
+function lineKey(line: string): string {
+  return line.trim().toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+function edgeIndexes(lines: string[]): number[] {
+  const nonEmpty = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.trim() !== '')
+    .map(({ index }) => index);
+
+  const top = nonEmpty.slice(0, EDGE_LINES);
+  const bottom = nonEmpty.slice(-EDGE_LINES);
+  return Array.from(new Set([...top, ...bottom]));
+}
+
+// Drop page numbers and lines that repeat at the top or bottom of many pages
+export function removeRepeatingLines(pages: string[]): string[] {
+  const pageLines = pages.map(page => page.split('\n'));
+
+  const pageCounts = new Map<string, number>();
+  for (const lines of pageLines) {
+    const keys = new Set(edgeIndexes(lines).map(index => lineKey(lines[index])));
+    for (const key of keys) {
+      pageCounts.set(key, (pageCounts.get(key) || 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(MIN_REPEAT_PAGES, Math.ceil(pages.length * REPEAT_RATIO));
+
+  return pageLines.map(lines => {
+    const drop = new Set(
+      edgeIndexes(lines).filter(index =>
+        PAGE_NUMBER_PATTERN.test(lines[index]) ||
+        (pageCounts.get(lineKey(lines[index])) || 0) >= threshold
+      )
+    );
+    return lines.filter((_line, index) => !drop.has(index)).join('\n');
+  });
+}
+
+// Re-join words hyphenated across line breaks ("extra-\nordinary" -> "extraordinary")
+export function joinHyphenatedLines(text: string): string {
+  return text.replace(/([A-Za-z])[-\u00AD]\n\s*([a-z])/g, '$1$2');
+}
+
+// Clean every page and join them with form feeds so page numbers survive chunking
+export function joinPdfPages(pages: string[]): string {
+  return removeRepeatingLines(pages)
+    .map(page => joinHyphenatedLines(page).trim())
+    .join('\f');
+}
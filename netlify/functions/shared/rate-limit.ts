@@ -0,0 +1,203 @@
+import { Client } from 'pg';
+import { createErrorResponse, ErrorCodes } from './utils';
+
+// Requests are limited per tenant and route with token buckets stored in rag.rate_limit_buckets, so
+// every function instance sees the same counts. A bucket holds up to `capacity` requests and refills
+// continuously at `refill_per_minute`.
+export interface RouteLimit {
+  capacity: number;
+  refill_per_minute: number;
+}
+
+export type RateLimitRoute = 'rag-query' | 'upload' | 'ingest' | 'doc-status' | 'doc-extracted' | 'documents' | 'upload-part';
+
+// Defaults; a tenant's rag.tenant_quotas.route_limits entry overrides them per route
+export const DEFAULT_ROUTE_LIMITS: Record<RateLimitRoute, RouteLimit> = {
+  'rag-query': { capacity: 20, refill_per_minute: 10 },
+  upload: { capacity: 10, refill_per_minute: 5 },
+  ingest: { capacity: 30, refill_per_minute: 30 },
+  'doc-status': { capacity: 120, refill_per_minute: 120 },
+  'doc-extracted': { capacity: 30, refill_per_minute: 30 },
+  documents: { capacity: 60, refill_per_minute: 60 },
+  // Parts of resumable uploads, and session status checks while resuming
+  'upload-part': { capacity: 120, refill_per_minute: 120 }
+};
+
+// Daily LLM tokens (prompt + completion) per tenant unless rag.tenant_quotas.daily_llm_tokens is set
+export const DEFAULT_DAILY_LLM_TOKENS = 1_000_000;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_seconds: number;         // until the bucket is full again
+  retry_after_seconds: number;   // until this request would be allowed; 0 when allowed
+  degraded?: boolean;            // the store could not be reached and the request was let through
+}
+
+export interface TokenQuotaDecision {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  remaining: number;
+  reset_seconds: number;         // until the quota resets at UTC midnight
+}
+
+function isRouteLimit(value: any): value is RouteLimit {
+  return value != null
+    && Number.isFinite(value.capacity) && value.capacity > 0
+    && Number.isFinite(value.refill_per_minute) && value.refill_per_minute > 0;
+}
+
+export function dailyTokenQuota(env: NodeJS.ProcessEnv = process.env): number {
+  const quota = Number(env.DAILY_LLM_TOKEN_QUOTA);
+  return Number.isFinite(quota) && quota > 0 ? Math.floor(quota) : DEFAULT_DAILY_LLM_TOKENS;
+}
+
+export function toRateLimitDecision(limit: RouteLimit, tokens: number, allowed: boolean, cost: number = 1): RateLimitDecision {
+  const perSecond = limit.refill_per_minute / 60;
+  return {
+    allowed,
+    limit: limit.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    reset_seconds: Math.max(0, Math.ceil((limit.capacity - tokens) / perSecond)),
+    retry_after_seconds: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / perSecond))
+  };
+}
+
+// Take `cost` tokens from the tenant's bucket for this route. Refill and consumption happen in one
+// upsert, so concurrent requests cannot both spend the last token. If the store fails the request is
+// allowed: a broken limiter should not take the API down with it.
+export async function consumeRateLimit(
+  client: Client,
+  tenantId: string,
+  route: RateLimitRoute,
+  cost: number = 1
+): Promise<RateLimitDecision> {
+  let limit = DEFAULT_ROUTE_LIMITS[route];
+
+  try {
+    const override = await client.query(
+      'SELECT route_limits->$2 AS route_limit FROM rag.tenant_quotas WHERE tenant_id = $1',
+      [tenantId, route]
+    );
+    if (isRouteLimit(override.rows[0]?.route_limit)) {
+      limit = override.rows[0].route_limit;
+    }
+
+    const refilled = `LEAST($3::float8, rag.rate_limit_buckets.tokens
+      + EXTRACT(EPOCH FROM (now() - rag.rate_limit_buckets.updated_at)) * $4::float8 / 60)`;
+    const result = await client.query(`
+      INSERT INTO rag.rate_limit_buckets (tenant_id, route, tokens, last_allowed, updated_at)
+      VALUES ($1, $2, GREATEST($3::float8 - $5::float8, 0), $3::float8 >= $5::float8, now())
+      ON CONFLICT (tenant_id, route) DO UPDATE SET
+        tokens = CASE WHEN ${refilled} >= $5::float8 THEN ${refilled} - $5::float8 ELSE ${refilled} END,
+        last_allowed = ${refilled} >= $5::float8,
+        updated_at = now()
+      RETURNING tokens, last_allowed
+    `, [tenantId, route, limit.capacity, limit.refill_per_minute, cost]);
+
+    const bucket = result.rows[0];
+    if (!bucket) {
+      throw new Error('Rate limit bucket was not returned');
+    }
+    return toRateLimitDecision(limit, Number(bucket.tokens), bucket.last_allowed, cost);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${tenantId}/${route}, allowing request:`, error);
+    return { allowed: true, limit: limit.capacity, remaining: limit.capacity, reset_seconds: 0, retry_after_seconds: 0, degraded: true };
+  }
+}
+
+// Browsers only let scripts read these cross-origin when listed
+const EXPOSED_HEADERS = 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-LLM-Tokens-Limit, X-LLM-Tokens-Remaining, Retry-After';
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  if (decision.degraded) return {};
+  return {
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.reset_seconds),
+    ...(!decision.allowed && { 'Retry-After': String(decision.retry_after_seconds) })
+  };
+}
+
+export function rateLimitedResponse(route: RateLimitRoute, decision: RateLimitDecision) {
+  const response = createErrorResponse(
+    429,
+    `Rate limit exceeded for ${route}. Try again in ${decision.retry_after_seconds} seconds.`,
+    ErrorCodes.RATE_LIMITED,
+    { route, limit: decision.limit, retry_after_seconds: decision.retry_after_seconds }
+  );
+  return { ...response, headers: { ...response.headers, ...rateLimitHeaders(decision) } };
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+// Whether the tenant has LLM tokens left today. Usage is only known after a completion, so the check
+// runs before the call and the last request of the day may overshoot the quota by its own size.
+export async function checkTokenQuota(client: Client, tenantId: string, now: number = Date.now()): Promise<TokenQuotaDecision> {
+  const day = new Date(now).toISOString().slice(0, 10);
+  let limit = dailyTokenQuota();
+  let used = 0;
+
+  try {
+    const result = await client.query(`
+      SELECT
+        (SELECT daily_llm_tokens FROM rag.tenant_quotas WHERE tenant_id = $1) AS quota,
+        (SELECT tokens FROM rag.llm_token_usage WHERE tenant_id = $1 AND day = $2) AS used
+    `, [tenantId, day]);
+    const row = result.rows[0];
+    if (row?.quota != null) limit = Number(row.quota);
+    used = Number(row?.used ?? 0);
+  } catch (error) {
+    console.error(`Token quota check failed for ${tenantId}, allowing request:`, error);
+  }
+
+  return {
+    allowed: used < limit,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    reset_seconds: secondsUntilUtcMidnight(now)
+  };
+}
+
+export function tokenQuotaHeaders(quota: TokenQuotaDecision): Record<string, string> {
+  return {
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'X-LLM-Tokens-Limit': String(quota.limit),
+    'X-LLM-Tokens-Remaining': String(quota.remaining),
+    ...(!quota.allowed && { 'Retry-After': String(quota.reset_seconds) })
+  };
+}
+
+export function quotaExceededResponse(quota: TokenQuotaDecision) {
+  const response = createErrorResponse(429, 'Daily LLM token quota exhausted', ErrorCodes.QUOTA_EXCEEDED, {
+    limit: quota.limit,
+    used: quota.used,
+    retry_after_seconds: quota.reset_seconds
+  });
+  return { ...response, headers: { ...response.headers, ...tokenQuotaHeaders(quota) } };
+}
+
+// Add a completion's tokens to today's total. Failures are logged, not thrown: the answer was already produced.
+export async function recordTokenUsage(client: Client, tenantId: string, tokens: number, now: number = Date.now()): Promise<void> {
+  const day = new Date(now).toISOString().slice(0, 10);
+  try {
+    await client.query(`
+      INSERT INTO rag.llm_token_usage (tenant_id, day, tokens, requests, updated_at)
+      VALUES ($1, $2, $3, 1, now())
+      ON CONFLICT (tenant_id, day) DO UPDATE SET
+        tokens = rag.llm_token_usage.tokens + EXCLUDED.tokens,
+        requests = rag.llm_token_usage.requests + 1,
+        updated_at = now()
+    `, [tenantId, day, Math.max(0, Math.round(tokens))]);
+  } catch (error) {
+    console.error(`Failed to record LLM token usage for ${tenantId}:`, error);
+  }
+}
@@ -0,0 +1,288 @@
+import { Client } from 'pg';
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface ChunkResult {
+  id: number;
+  content: string;
+  chunk_index: number;
+  similarity: number | null;     // cosine similarity; null when the vector search did not return the chunk
+  keyword_rank: number | null;   // ts_rank_cd score; null when the keyword search did not return the chunk
+  score: number;                 // fused score used for ordering
+  doc_id?: number;               // rag.documents.id
+  document_id?: string;          // the public doc_id clients use (documents.metadata.doc_id)
+  document_title?: string;
+  section?: string | null;
+  page_from?: number | null;
+  page_to?: number | null;
+}
+
+// Metadata restrictions applied inside both searches
+export interface SearchFilters {
+  doc_ids?: string[];
+  document_types?: string[];
+  section_range?: { from?: number; to?: number };   // chunks.section_number, e.g. chapters 3-5
+  page_range?: { from?: number; to?: number };      // chunks overlapping these pages
+  teks?: string[];                                  // documents tagged with any of these codes
+  uploaded_after?: Date;
+  uploaded_before?: Date;
+}
+
+// The prompt embedded with one model, searched against the documents whose active index used that model
+export interface QueryEmbedding {
+  model: string;
+  embedding: number[];
+}
+
+export interface FusionWeights {
+  vector: number;
+  keyword: number;
+}
+
+export interface SearchOptions {
+  tenantId: string;
+  mode: SearchMode;
+  queryText: string;
+  queryEmbeddings?: QueryEmbedding[];   // required for vector and hybrid modes; one per model the tenant's indexes use
+  filters?: SearchFilters;
+  topK: number;
+  weights?: FusionWeights;
+  rrfK?: number;
+}
+
+export const DEFAULT_WEIGHTS: FusionWeights = { vector: 1, keyword: 1 };
+
+// Standard reciprocal rank fusion constant; damps the advantage of the very top ranks
+export const DEFAULT_RRF_K = 60;
+
+// Each list fetches more than top_k so fusion has something to reorder
+const CANDIDATE_MULTIPLIER = 4;
+const MIN_CANDIDATES = 20;
+
+// ivfflat filters after scanning the probed lists, so a selective filter can starve LIMIT.
+// Probe more lists when filtering (default is 1 of idx_embeddings_embedding's lists, which nightly maintenance sizes to the table).
+const FILTERED_IVFFLAT_PROBES = 10;
+
+// Must match the configuration of the generated search_tsv column
+const TEXT_SEARCH_CONFIG = 'english';
+
+const CHUNK_COLUMNS = `
+      c.id,
+      c.doc_id,
+      d.metadata->>'doc_id' as document_id,
+      c.text as content,
+      c.chunk_id as chunk_index,
+      c.section,
+      c.page_from,
+      c.page_to,
+      d.title as document_title`;
+
+function toChunkResult(row: any, similarity: number | null, keywordRank: number | null): ChunkResult {
+  return {
+    id: row.id,
+    content: row.content,
+    chunk_index: row.chunk_index,
+    similarity,
+    keyword_rank: keywordRank,
+    score: similarity ?? keywordRank ?? 0,
+    doc_id: row.doc_id,
+    document_id: row.document_id,
+    document_title: row.document_title,
+    section: row.section,
+    page_from: row.page_from,
+    page_to: row.page_to
+  };
+}
+
+function hasFilters(filters?: SearchFilters): boolean {
+  return !!filters && Object.values(filters).some(value => value !== undefined);
+}
+
+// Turn filters into predicates on c (rag.chunks) and d (rag.documents), appending their values to params.
+// Predicates only narrow the rows; ordering stays on the vector distance so the ANN index is still used.
+export function filterPredicates(filters: SearchFilters | undefined, params: any[]): string {
+  if (!filters) return '';
+
+  const clauses: string[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.doc_ids?.length) {
+    clauses.push(`d.metadata->>'doc_id' = ANY(${param(filters.doc_ids)}::text[])`);
+  }
+  if (filters.document_types?.length) {
+    clauses.push(`d.document_type = ANY(${param(filters.document_types)}::text[])`);
+  }
+  if (filters.section_range?.from !== undefined) {
+    clauses.push(`c.section_number >= ${param(filters.section_range.from)}`);
+  }
+  if (filters.section_range?.to !== undefined) {
+    clauses.push(`c.section_number <= ${param(filters.section_range.to)}`);
+  }
+  if (filters.page_range?.from !== undefined) {
+    clauses.push(`COALESCE(c.page_to, c.page_from) >= ${param(filters.page_range.from)}`);
+  }
+  if (filters.page_range?.to !== undefined) {
+    clauses.push(`c.page_from <= ${param(filters.page_range.to)}`);
+  }
+  if (filters.teks?.length) {
+    clauses.push(`d.teks_codes && ${param(filters.teks)}::text[]`);
+  }
+  if (filters.uploaded_after) {
+    clauses.push(`d.created_at >= ${param(filters.uploaded_after)}`);
+  }
+  if (filters.uploaded_before) {
+    clauses.push(`d.created_at < ${param(filters.uploaded_before)}`);
+  }
+
+  return clauses.map(clause => `\n      AND ${clause}`).join('');
+}
+
+// Nearest chunks by cosine distance within one tenant, from each document's active index version.
+// The tenant predicate is explicit here as well as enforced by RLS.
+export async function vectorSearch(
+  client: Client,
+  tenantId: string,
+  queryEmbedding: number[],
+  embeddingModel: string,
+  filters?: SearchFilters,
+  limit: number = 5
+): Promise<ChunkResult[]> {
+  const params: any[] = [`[${queryEmbedding.join(',')}]`, embeddingModel, tenantId];
+
+  let query = `
+    SELECT ${CHUNK_COLUMNS},
+      1 - (e.embedding <=> $1) as similarity
+    FROM rag.embeddings e
+    JOIN rag.chunks c ON e.chunk_id = c.id
+    JOIN rag.documents d ON c.doc_id = d.id
+    WHERE e.model = $2
+      AND e.tenant_id = $3
+      AND c.tenant_id = $3
+      AND d.tenant_id = $3
+      AND c.index_version = d.active_index_version`;
+  query += filterPredicates(filters, params);
+  query += `
+    ORDER BY e.embedding <=> $1
+    LIMIT $${params.length + 1}`;
+  params.push(limit);
+
+  if (!hasFilters(filters)) {
+    const result = await client.query(query, params);
+    return result.rows.map(row => toChunkResult(row, parseFloat(row.similarity), null));
+  }
+
+  // Raised for this query only; later queries on the connection go back to the default
+  await client.query(`SELECT set_config('ivfflat.probes', $1, false)`, [String(FILTERED_IVFFLAT_PROBES)]);
+  try {
+    const result = await client.query(query, params);
+    return result.rows.map(row => toChunkResult(row, parseFloat(row.similarity), null));
+  } finally {
+    await client.query('RESET ivfflat.probes');
+  }
+}
+
+// Each document is searched with the model its active index was embedded with. While a re-index moves
+// documents to another model there is more than one; their matches are merged by similarity.
+async function vectorSearchModels(
+  client: Client,
+  tenantId: string,
+  queryEmbeddings: QueryEmbedding[],
+  filters: SearchFilters | undefined,
+  limit: number
+): Promise<ChunkResult[]> {
+  if (queryEmbeddings.length === 1) {
+    return vectorSearch(client, tenantId, queryEmbeddings[0].embedding, queryEmbeddings[0].model, filters, limit);
+  }
+
+  const results: ChunkResult[] = [];
+  for (const { model, embedding } of queryEmbeddings) {
+    results.push(...await vectorSearch(client, tenantId, embedding, model, filters, limit));
+  }
+  return results.sort((a, b) => b.similarity! - a.similarity! || a.id - b.id).slice(0, limit);
+}
+
+// Full-text matches on chunk text and section headings, for names, vocabulary words and "chapter 7"
+export async function keywordSearch(
+  client: Client,
+  tenantId: string,
+  queryText: string,
+  filters?: SearchFilters,
+  limit: number = 5
+): Promise<ChunkResult[]> {
+  const params: any[] = [queryText, tenantId];
+
+  let query = `
+    SELECT ${CHUNK_COLUMNS},
+      ts_rank_cd(c.search_tsv, q.query) as keyword_rank
+    FROM rag.chunks c
+    JOIN rag.documents d ON c.doc_id = d.id,
+      websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $1) AS q(query)
+    WHERE c.search_tsv @@ q.query
+      AND c.tenant_id = $2
+      AND d.tenant_id = $2
+      AND c.index_version = d.active_index_version`;
+  query += filterPredicates(filters, params);
+  query += `
+    ORDER BY keyword_rank DESC, c.id
+    LIMIT $${params.length + 1}`;
+  params.push(limit);
+
+  const result = await client.query(query, params);
+  return result.rows.map(row => toChunkResult(row, null, parseFloat(row.keyword_rank)));
+}
+
+// Merge ranked lists: each chunk scores sum(weight / (k + rank)) over the lists it appears in
+export function reciprocalRankFusion(
+  lists: { results: ChunkResult[]; weight: number }[],
+  k: number = DEFAULT_RRF_K
+): ChunkResult[] {
+  const fused = new Map<number, ChunkResult>();
+
+  for (const { results, weight } of lists) {
+    results.forEach((result, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.similarity = existing.similarity ?? result.similarity;
+        existing.keyword_rank = existing.keyword_rank ?? result.keyword_rank;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score || a.id - b.id);
+}
+
+// Run the searches the mode asks for and return the top_k chunks
+export async function searchChunks(client: Client, options: SearchOptions): Promise<ChunkResult[]> {
+  const { tenantId, mode, queryText, queryEmbeddings, filters, topK } = options;
+
+  if (mode !== 'keyword' && !queryEmbeddings?.length) {
+    throw new Error(`A query embedding is required for ${mode} search`);
+  }
+
+  if (mode === 'vector') {
+    return vectorSearchModels(client, tenantId, queryEmbeddings!, filters, topK);
+  }
+  if (mode === 'keyword') {
+    return keywordSearch(client, tenantId, queryText, filters, topK);
+  }
+
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const candidates = Math.max(topK * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
+
+  const [vectorResults, keywordResults] = await Promise.all([
+    weights.vector > 0 ? vectorSearchModels(client, tenantId, queryEmbeddings!, filters, candidates) : [],
+    weights.keyword > 0 ? keywordSearch(client, tenantId, queryText, filters, candidates) : []
+  ]);
+
+  return reciprocalRankFusion([
+    { results: vectorResults, weight: weights.vector },
+    { results: keywordResults, weight: weights.keyword }
+  ], options.rrfK ?? DEFAULT_RRF_K).slice(0, topK);
+}
@@ -0,0 +1,19 @@
+// Texas Essential Knowledge and Skills codes: grade.strand plus lettered/numbered parts, e.g. "6.6(B)" or "110.22(B)(6)(B)"
+const TEKS_CODE_PATTERN = /^\d{1,3}(\.\d{1,3})+(\([A-Z0-9]{1,4}\))*$/;
+
+// Case and spacing vary between sources ("6.6 (b)"); store and compare one spelling
+export function normalizeTeksCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+export function isValidTeksCode(code: string): boolean {
+  return TEKS_CODE_PATTERN.test(normalizeTeksCode(code));
+}
+
+// Parse a comma- or semicolon-separated list from a form field
+export function parseTeksCodes(input: string): { codes: string[]; invalid: string[] } {
+  const entries = input.split(/[,;]/).map(entry => entry.trim()).filter(Boolean);
+  const codes = Array.from(new Set(entries.filter(isValidTeksCode).map(normalizeTeksCode)));
+  const invalid = entries.filter(entry => !isValidTeksCode(entry));
+  return { codes, invalid };
+}
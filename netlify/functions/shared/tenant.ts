@@ -0,0 +1,18 @@
+import { Client } from 'pg';
+
+// Tenant ids end up in Blob keys, so keep them to a safe character set
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidTenantId(tenantId: string): boolean {
+  return TENANT_ID_PATTERN.test(tenantId);
+}
+
+// Scope this connection to one tenant; the RLS policies read app.tenant_id
+export async function setTenantScope(client: Client, tenantId: string): Promise<void> {
+  await client.query(`SELECT set_config('app.tenant_id', $1, false), set_config('app.tenant_scope', '', false)`, [tenantId]);
+}
+
+// Let a system job (migrations, maintenance) see every tenant's rows
+export async function setServiceScope(client: Client): Promise<void> {
+  await client.query(`SELECT set_config('app.tenant_scope', 'all', false)`);
+}
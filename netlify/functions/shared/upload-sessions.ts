@@ -0,0 +1,253 @@
+import { Client } from 'pg';
+import { getStore } from '@netlify/blobs';
+import { createHash, randomUUID } from 'crypto';
+
+// Parts wait here, keyed {tenant_id}/{session_id}/{part_number}, until the file is assembled into uploads
+export const UPLOAD_PARTS_STORE = 'upload-parts';
+
+// Parts stay under the function request limit once base64 encoded
+export const PART_SIZE = 4 * 1024 * 1024;
+
+// Completion reads every part, checks the whole file and stores it again within one synchronous
+// function call (10 seconds by default), holding about twice the file in memory; 8 parts fit that
+export const MAX_RESUMABLE_UPLOAD_BYTES = 32 * 1024 * 1024;
+
+// Open sessions expire this long after their last part; nightly maintenance cleans them up
+export const SESSION_TTL_HOURS = 24;
+
+// Finished sessions are kept this long for clients that retry completing
+const FINISHED_SESSION_RETENTION_DAYS = 7;
+
+// Netlify stops a synchronous function after 26 seconds at most, so a completion that has not
+// finished after this long has died and may be retried
+const STALE_COMPLETION_SECONDS = 60;
+
+export type UploadSessionStatus = 'open' | 'completing' | 'completed' | 'aborted' | 'expired';
+
+export interface UploadSession {
+  id: string;
+  tenant_id: string;
+  created_by: string;
+  filename: string;
+  mimetype: string;
+  title: string;
+  document_type: string;
+  teks_codes: string[];
+  new_version: boolean;
+  total_size: number;
+  part_size: number;
+  part_count: number;
+  sha256: string;
+  status: UploadSessionStatus;
+  doc_id: string | null;
+  expires_at: string;
+}
+
+export interface UploadPart {
+  part_number: number;
+  size: number;
+  sha256: string;
+}
+
+export interface NewUploadSession {
+  tenantId: string;
+  createdBy: string;
+  filename: string;
+  mimetype: string;
+  title: string;
+  documentType: string;
+  teksCodes: string[];
+  newVersion: boolean;
+  totalSize: number;
+  sha256: string;
+}
+
+export function partKey(tenantId: string, sessionId: string, partNumber: number): string {
+  return `${tenantId}/${sessionId}/${partNumber}`;
+}
+
+// Every part is PART_SIZE bytes except the last, which holds the remainder
+export function expectedPartSize(session: Pick<UploadSession, 'total_size' | 'part_size' | 'part_count'>, partNumber: number): number {
+  return partNumber < session.part_count
+    ? session.part_size
+    : session.total_size - session.part_size * (session.part_count - 1);
+}
+
+// Part numbers (1-based) not yet received
+export function missingParts(session: Pick<UploadSession, 'part_count'>, parts: UploadPart[]): number[] {
+  const received = new Set(parts.map(part => part.part_number));
+  return Array.from({ length: session.part_count }, (_, index) => index + 1).filter(number => !received.has(number));
+}
+
+const SESSION_COLUMNS = `id, tenant_id, created_by, filename, mimetype, title, document_type, teks_codes, new_version,
+  total_size, part_size, part_count, sha256, status, doc_id, expires_at`;
+
+function toSession(row: any): UploadSession {
+  return { ...row, total_size: Number(row.total_size) };
+}
+
+export async function createUploadSession(client: Client, session: NewUploadSession): Promise<UploadSession> {
+  const result = await client.query(`
+    INSERT INTO rag.upload_sessions (
+      id, tenant_id, created_by, filename, mimetype, title, document_type, teks_codes, new_version,
+      total_size, part_size, part_count, sha256, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CURRENT_TIMESTAMP + $14 * INTERVAL '1 hour')
+    RETURNING ${SESSION_COLUMNS}
+  `, [
+    randomUUID(),
+    session.tenantId,
+    session.createdBy,
+    session.filename,
+    session.mimetype,
+    session.title,
+    session.documentType,
+    session.teksCodes,
+    session.newVersion,
+    session.totalSize,
+    PART_SIZE,
+    Math.ceil(session.totalSize / PART_SIZE),
+    session.sha256,
+    SESSION_TTL_HOURS
+  ]);
+  return toSession(result.rows[0]);
+}
+
+// Sessions belong to the user who started them
+export async function getUploadSession(
+  client: Client,
+  tenantId: string,
+  userId: string,
+  sessionId: string
+): Promise<{ session: UploadSession; parts: UploadPart[] } | null> {
+  const result = await client.query(
+    `SELECT ${SESSION_COLUMNS} FROM rag.upload_sessions WHERE id = $1 AND tenant_id = $2 AND created_by = $3`,
+    [sessionId, tenantId, userId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const parts = await client.query(
+    'SELECT part_number, size, sha256 FROM rag.upload_parts WHERE session_id = $1 ORDER BY part_number',
+    [sessionId]
+  );
+  return { session: toSession(result.rows[0]), parts: parts.rows };
+}
+
+// Store one part. Sending a part again replaces it, so a client that lost the response simply resends.
+// Each part pushes the session's expiry back.
+export async function saveUploadPart(client: Client, session: UploadSession, partNumber: number, body: Buffer): Promise<UploadPart> {
+  const part: UploadPart = {
+    part_number: partNumber,
+    size: body.length,
+    sha256: createHash('sha256').update(body).digest('hex')
+  };
+
+  await getStore(UPLOAD_PARTS_STORE).set(partKey(session.tenant_id, session.id, partNumber), body as unknown as ArrayBuffer);
+
+  await client.query(`
+    INSERT INTO rag.upload_parts (session_id, tenant_id, part_number, size, sha256)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (session_id, part_number) DO UPDATE SET
+      size = EXCLUDED.size,
+      sha256 = EXCLUDED.sha256,
+      created_at = CURRENT_TIMESTAMP
+  `, [session.id, session.tenant_id, partNumber, part.size, part.sha256]);
+
+  await client.query(`
+    UPDATE rag.upload_sessions
+    SET updated_at = CURRENT_TIMESTAMP, expires_at = CURRENT_TIMESTAMP + $2 * INTERVAL '1 hour'
+    WHERE id = $1
+  `, [session.id, SESSION_TTL_HOURS]);
+
+  return part;
+}
+
+// Take the session for completion so two requests cannot assemble it at once. A completion that
+// died part way can be taken again once stale.
+export async function claimUploadSession(client: Client, sessionId: string): Promise<boolean> {
+  const result = await client.query(`
+    UPDATE rag.upload_sessions
+    SET status = 'completing', updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+      AND (status = 'open'
+        OR (status = 'completing' AND updated_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 second'))
+  `, [sessionId, STALE_COMPLETION_SECONDS]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function finishUploadSession(
+  client: Client,
+  sessionId: string,
+  status: 'open' | 'completed' | 'aborted',
+  docId: string | null = null
+): Promise<void> {
+  await client.query(`
+    UPDATE rag.upload_sessions
+    SET status = $2,
+        doc_id = COALESCE($3, doc_id),
+        updated_at = CURRENT_TIMESTAMP,
+        completed_at = CASE WHEN $2 = 'completed' THEN CURRENT_TIMESTAMP ELSE completed_at END
+    WHERE id = $1
+  `, [sessionId, status, docId]);
+}
+
+// Concatenate the parts in order, hashing as they are read
+export async function assembleUpload(session: UploadSession): Promise<{ file: Buffer; sha256: string }> {
+  const store = getStore(UPLOAD_PARTS_STORE);
+  const hash = createHash('sha256');
+  const buffers: Buffer[] = [];
+
+  for (let partNumber = 1; partNumber <= session.part_count; partNumber++) {
+    const data = await store.get(partKey(session.tenant_id, session.id, partNumber), { type: 'arrayBuffer' });
+    if (data === null) {
+      throw new Error(`Part ${partNumber} of upload session ${session.id} is missing from storage`);
+    }
+    const buffer = Buffer.from(data);
+    hash.update(buffer);
+    buffers.push(buffer);
+  }
+
+  return { file: Buffer.concat(buffers), sha256: hash.digest('hex') };
+}
+
+export async function deleteUploadParts(tenantId: string, sessionId: string): Promise<number> {
+  const store = getStore(UPLOAD_PARTS_STORE);
+  let deleted = 0;
+  for await (const page of store.list({ prefix: `${tenantId}/${sessionId}/`, paginate: true })) {
+    for (const blob of page.blobs) {
+      await store.delete(blob.key);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+// Expire sessions nobody has sent a part to within the TTL and drop their parts, then forget
+// sessions that finished long ago (deleting any parts an earlier cleanup left behind)
+export async function expireUploadSessions(
+  client: Client
+): Promise<{ expired: number; sessions_deleted: number; parts_deleted: number }> {
+  const expired = await client.query(`
+    UPDATE rag.upload_sessions
+    SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+    WHERE status IN ('open', 'completing') AND expires_at < CURRENT_TIMESTAMP
+    RETURNING tenant_id, id
+  `);
+
+  let partsDeleted = 0;
+  for (const session of expired.rows) {
+    partsDeleted += await deleteUploadParts(session.tenant_id, session.id);
+  }
+
+  const finished = await client.query(`
+    SELECT tenant_id, id FROM rag.upload_sessions
+    WHERE status IN ('completed', 'aborted', 'expired')
+      AND updated_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 day'
+  `, [FINISHED_SESSION_RETENTION_DAYS]);
+
+  for (const session of finished.rows) {
+    partsDeleted += await deleteUploadParts(session.tenant_id, session.id);
+    await client.query('DELETE FROM rag.upload_sessions WHERE id = $1', [session.id]);
+  }
+
+  return { expired: expired.rows.length, sessions_deleted: finished.rows.length, parts_deleted: partsDeleted };
+}
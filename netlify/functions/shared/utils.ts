@@ -11,11 +11,24 @@ export interface ApiError {
 export const ErrorCodes = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   RATE_LIMITED: 'RATE_LIMITED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   DATABASE_ERROR: 'DATABASE_ERROR',
   EXTERNAL_API_ERROR: 'EXTERNAL_API_ERROR',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
+  CONFIGURATION_ERROR: 'CONFIGURATION_ERROR',
   METHOD_NOT_ALLOWED: 'METHOD_NOT_ALLOWED',
-  MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD'
+  MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_STATE: 'INVALID_STATE',
+  UNSUPPORTED_FILE_TYPE: 'UNSUPPORTED_FILE_TYPE',
+  FILE_TYPE_MISMATCH: 'FILE_TYPE_MISMATCH',
+  ARCHIVE_TOO_LARGE: 'ARCHIVE_TOO_LARGE',
+  ENCRYPTED_DOCUMENT: 'ENCRYPTED_DOCUMENT',
+  UNSAFE_CONTENT: 'UNSAFE_CONTENT',
+  MIGRATION_IN_PROGRESS: 'MIGRATION_IN_PROGRESS',
+  MIGRATION_CHECKSUM_MISMATCH: 'MIGRATION_CHECKSUM_MISMATCH'
 } as const;
 
 // Create structured error response
@@ -34,7 +47,7 @@ export function createErrorResponse(
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
     },
     body: JSON.stringify({
@@ -48,7 +61,7 @@ export function createErrorResponse(
 // Validate request body with zod
 export function validateRequestBody<T>(
   body: string | null,
-  schema: z.ZodSchema<T>
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
 ): { success: true; data: T } | { success: false; error: ApiError } {
   try {
     if (!body) {
@@ -88,61 +101,32 @@ export function validateRequestBody<T>(
   }
 }
 
-// In-memory rate limiting (dev only - TODO: move to DB/edge for production)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute
+// How long to wait for Netlify to accept a background function call; it answers 202 once the call is queued
+const BACKGROUND_START_TIMEOUT_MS = 2000;
 
-export function checkRateLimit(ip: string): { allowed: true } | { allowed: false; error: ApiError } {
-  const now = Date.now();
-  const key = ip;
-  
-  // Clean up expired entries
-  for (const [k, v] of rateLimitMap.entries()) {
-    if (v.resetTime < now) {
-      rateLimitMap.delete(k);
+// Start a -background function of this deploy. Resolves to whether Netlify accepted the call;
+// failures are logged, not thrown.
+export async function startBackgroundFunction(
+  name: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>
+): Promise<boolean> {
+  // Build absolute URL using Netlify env vars; avoid localhost fallback in production
+  const baseUrl = process.env.DEPLOY_URL || process.env.URL || 'http://localhost:8888';
+
+  try {
+    const response = await fetch(`${baseUrl}/.netlify/functions/${name}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(BACKGROUND_START_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      console.error(`Background function ${name} was not started: HTTP ${response.status}`);
     }
+    return response.ok;
+  } catch (error) {
+    console.error(`Failed to start background function ${name}:`, error);
+    return false;
   }
-  
-  const current = rateLimitMap.get(key);
-  
-  if (!current) {
-    // First request from this IP
-    rateLimitMap.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return { allowed: true };
-  }
-  
-  if (current.resetTime < now) {
-    // Window expired, reset
-    rateLimitMap.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return { allowed: true };
-  }
-  
-  if (current.count >= RATE_LIMIT_MAX_REQUESTS) {
-    // Rate limit exceeded
-    return {
-      allowed: false,
-      error: {
-        error: `Rate limit exceeded. Maximum ${RATE_LIMIT_MAX_REQUESTS} requests per minute.`,
-        code: ErrorCodes.RATE_LIMITED,
-        details: {
-          resetTime: current.resetTime,
-          maxRequests: RATE_LIMIT_MAX_REQUESTS,
-          windowMs: RATE_LIMIT_WINDOW
-        }
-      }
-    };
-  }
-  
-  // Increment counter
-  current.count++;
-  return { allowed: true };
-}
-
-// Get client IP from event
-export function getClientIP(event: any): string {
-  return event.headers['x-forwarded-for']?.split(',')[0]?.trim() || 
-         event.headers['x-real-ip'] || 
-         event.headers['cf-connecting-ip'] || 
-         'unknown';
 }
@@ -0,0 +1,202 @@
+import { LLMProvider, ChatUsage } from './llm';
+import { Passage, PackedContext } from './context-packer';
+
+export type VerificationMethod = 'lexical' | 'llm';
+
+export type ClaimStatus =
+  | 'supported'          // the cited passages back the claim
+  | 'unsupported'        // the cited passages do not back it, and no other passage does either
+  | 'miscited'           // another passage backs it, not the one cited
+  | 'invalid_citation'   // cites a number that was never in the prompt
+  | 'uncited';           // no citation marker; reported but not scored
+
+export interface ClaimCheck {
+  text: string;
+  citations: number[];
+  status: ClaimStatus;
+  support_score: number | null;      // 0-1 against the cited passages; null when there is nothing to score against
+  suggested_citations?: number[];    // passages that do support a miscited claim
+}
+
+export interface Verification {
+  method: VerificationMethod;
+  verdict: 'grounded' | 'ungrounded';
+  support_score: number | null;      // mean over cited claims
+  claims: ClaimCheck[];
+  flagged: number;                   // claims that are not supported
+  usage: ChatUsage | null;           // tokens the verifier model used, even if its reply was unusable; null for lexical checks
+}
+
+// Share of a claim's content words found in the cited text needed to count it as supported
+const SUPPORT_THRESHOLD = 0.6;
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Split after terminal punctuation plus any citation markers trailing it ("...a pig. [1] He...")
+const SENTENCE_BOUNDARY = /(?<=[.!?]["')]*(?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+(?!\[)/;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on',
+  'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+  'according', 'source', 'sources', 'passage', 'text', 'also'
+]);
+
+// Claim sentences with the citation markers they carry
+export function splitClaims(answer: string): { text: string; citations: number[] }[] {
+  return answer
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean)
+    .flatMap(line => line.split(SENTENCE_BOUNDARY))
+    .map(sentence => {
+      const citations = new Set<number>();
+      for (const match of sentence.matchAll(CITATION_PATTERN)) {
+        match[1].split(',').forEach(n => citations.add(parseInt(n, 10)));
+      }
+      return {
+        text: sentence.replace(CITATION_PATTERN, '').replace(/\s+([.,;:!?])/g, '$1').replace(/\s+/g, ' ').trim(),
+        citations: Array.from(citations)
+      };
+    })
+    .filter(claim => /[\p{L}\p{N}]/u.test(claim.text));
+}
+
+// Content words, lightly stemmed so "pigs"/"pig" and "lived"/"lives" line up
+function terms(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return new Set(
+    words
+      .filter(word => !STOPWORDS.has(word) && (word.length > 2 || /\d/.test(word)))
+      .map(word => word.replace(/(?:ing|ed|es|s)$/, '') || word)
+  );
+}
+
+// Fraction of the claim's content words present in the passage text
+export function lexicalSupport(claim: string, passageText: string): number {
+  const claimTerms = terms(claim);
+  if (claimTerms.size === 0) return 1;
+  const passageTerms = terms(passageText);
+  let found = 0;
+  for (const term of claimTerms) {
+    if (passageTerms.has(term)) found++;
+  }
+  return found / claimTerms.size;
+}
+
+function citedText(passages: Map<number, Passage>, citations: number[]): string {
+  return citations.map(citation => passages.get(citation)!.text).join('\n');
+}
+
+// Ask the provider to score each claim against its cited text; scores are null if the reply is unusable
+async function llmSupport(
+  provider: LLMProvider,
+  items: { claim: string; evidence: string }[],
+  signal?: AbortSignal
+): Promise<{ scores: number[] | null; usage: ChatUsage | null }> {
+  const numbered = items
+    .map((item, index) => `Claim ${index + 1}: ${item.claim}\nEvidence ${index + 1}: ${item.evidence}`)
+    .join('\n\n');
+
+  try {
+    const result = await provider.chat([
+      {
+        role: 'system',
+        content: 'You check whether claims are supported by evidence. For each claim, give a score from 0 (contradicted ' +
+          'or not mentioned in its evidence) to 1 (fully stated by its evidence). Use only the evidence given. ' +
+          'Reply with JSON only: {"scores": [number, ...]} in claim order.'
+      },
+      { role: 'user', content: numbered }
+    ], { temperature: 0, maxTokens: 20 + items.length * 8, signal });
+
+    let scores: unknown = null;
+    try {
+      const json = result.content.match(/\{[\s\S]*\}/)?.[0];
+      scores = json ? JSON.parse(json).scores : null;
+    } catch {
+      scores = null;
+    }
+    if (!Array.isArray(scores) || scores.length !== items.length || !scores.every(s => typeof s === 'number')) {
+      return { scores: null, usage: result.usage };
+    }
+    return { scores: scores.map(score => Math.min(1, Math.max(0, score))), usage: result.usage };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Verifier model failed, falling back to lexical checks:', error);
+    return { scores: null, usage: null };
+  }
+}
+
+// Check every cited claim in the answer against the passages it cites.
+// Support is scored lexically, or by the provider's chat model with method 'llm' (lexical if its reply is unusable).
+// Unsupported claims are checked against the other passages to tell miscitation from hallucination.
+export async function verifyAnswer(
+  answer: string,
+  packed: PackedContext,
+  options: { method?: VerificationMethod; provider?: LLMProvider; signal?: AbortSignal } = {}
+): Promise<Verification> {
+  const passages = new Map(packed.passages.map(passage => [passage.citation, passage]));
+  const claims = splitClaims(answer);
+
+  const scorable = claims.filter(claim =>
+    claim.citations.length > 0 && claim.citations.every(citation => passages.has(citation))
+  );
+
+  let method: VerificationMethod = 'lexical';
+  let scores = scorable.map(claim => lexicalSupport(claim.text, citedText(passages, claim.citations)));
+  let usage: ChatUsage | null = null;
+
+  if (options.method === 'llm' && options.provider && scorable.length > 0) {
+    const judged = await llmSupport(options.provider, scorable.map(claim => ({
+      claim: claim.text,
+      evidence: citedText(passages, claim.citations)
+    })), options.signal);
+    usage = judged.usage;
+    if (judged.scores) {
+      method = 'llm';
+      scores = judged.scores;
+    }
+  }
+
+  const scoreOf = new Map(scorable.map((claim, index) => [claim, scores[index]]));
+
+  const checks: ClaimCheck[] = claims.map(claim => {
+    if (claim.citations.length === 0) {
+      return { ...claim, status: 'uncited', support_score: null };
+    }
+    if (!scoreOf.has(claim)) {
+      return { ...claim, status: 'invalid_citation', support_score: null };
+    }
+
+    const score = scoreOf.get(claim)!;
+    if (score >= SUPPORT_THRESHOLD) {
+      return { ...claim, status: 'supported', support_score: score };
+    }
+
+    const alternatives = packed.passages
+      .filter(passage => !claim.citations.includes(passage.citation))
+      .filter(passage => lexicalSupport(claim.text, passage.text) >= SUPPORT_THRESHOLD)
+      .map(passage => passage.citation);
+
+    return alternatives.length > 0
+      ? { ...claim, status: 'miscited', support_score: score, suggested_citations: alternatives }
+      : { ...claim, status: 'unsupported', support_score: score };
+  });
+
+  const cited = checks.filter(check => check.status !== 'uncited');
+  const flagged = cited.filter(check => check.status !== 'supported').length;
+  const scored = cited.filter(check => check.support_score !== null);
+
+  return {
+    method,
+    // Grounded needs at least one cited claim and every citation to hold up
+    verdict: cited.length > 0 && flagged === 0 ? 'grounded' : 'ungrounded',
+    support_score: scored.length > 0
+      ? scored.reduce((sum, check) => sum + check.support_score!, 0) / scored.length
+      : null,
+    claims: checks,
+    flagged,
+    usage
+  };
+}
@@ -9,6 +9,7 @@ exports.handler = async (event, context) => {
       message: 'Test function working',
       method: event.httpMethod,
       hasOpenAI: !!process.env.OPENAI_API_KEY,
+      llmProvider: process.env.LLM_PROVIDER || 'openai',
       url: process.env.URL
     })
   };
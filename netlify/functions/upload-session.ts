@@ -0,0 +1,332 @@
+import { Handler, HandlerResponse } from '@netlify/functions';
+import { getStore } from '@netlify/blobs';
+import { Client } from 'pg';
+import { z } from 'zod';
+import { validateRequestBody, createErrorResponse, ErrorCodes } from './shared/utils';
+import { authenticate } from './shared/auth';
+import { setTenantScope } from './shared/tenant';
+import { isValidTeksCode, normalizeTeksCode } from './shared/teks';
+import { findUploadedFile, insertUploadedDocument, existingUploadBody } from './shared/documents';
+import { checkFileExtension, validateUploadedFile } from './shared/file-validation';
+import {
+  consumeRateLimit,
+  rateLimitHeaders,
+  rateLimitedResponse,
+  RateLimitDecision,
+  RateLimitRoute
+} from './shared/rate-limit';
+import {
+  MAX_RESUMABLE_UPLOAD_BYTES,
+  UploadSession,
+  UploadPart,
+  createUploadSession,
+  getUploadSession,
+  saveUploadPart,
+  claimUploadSession,
+  finishUploadSession,
+  assembleUpload,
+  deleteUploadParts,
+  expectedPartSize,
+  missingParts
+} from './shared/upload-sessions';
+
+const StartSchema = z.object({
+  filename: z.string().min(1).max(255),
+  title: z.string().trim().min(1).max(500),
+  type: z.string().trim().min(1).max(100),
+  size: z.number().int().min(1).max(MAX_RESUMABLE_UPLOAD_BYTES),
+  // Of the whole file; checked once every part has arrived
+  sha256: z.string().regex(/^[0-9a-fA-F]{64}$/, 'sha256 must be 64 hex characters').transform(hash => hash.toLowerCase()),
+  mimetype: z.string().min(1).max(100).optional().default('application/octet-stream'),
+  teks: z.array(
+    z.string().refine(isValidTeksCode, code => ({ message: `Invalid TEKS code: ${code}` })).transform(normalizeTeksCode)
+  ).max(50).optional().default([]),
+  // Store the file even if the tenant already has it, as a new document
+  new_version: z.boolean().optional().default(false)
+});
+
+function jsonResponse(statusCode: number, body: unknown, rateLimit: RateLimitDecision): HandlerResponse {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      ...rateLimitHeaders(rateLimit)
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+function sessionSummary(session: UploadSession, parts: UploadPart[]) {
+  return {
+    session_id: session.id,
+    status: session.status,
+    filename: session.filename,
+    size: session.total_size,
+    sha256: session.sha256,
+    part_size: session.part_size,
+    part_count: session.part_count,
+    received_parts: parts,
+    missing_parts: missingParts(session, parts),
+    doc_id: session.doc_id,
+    expires_at: session.expires_at
+  };
+}
+
+// Assemble the parts, check the file against the declared sha256 and register the document. On a
+// failure the session is reopened so the client can resend parts and complete again, unless the
+// file's content is refused, which aborts it.
+async function completeUpload(
+  client: Client,
+  session: UploadSession,
+  userId: string,
+  rateLimit: RateLimitDecision
+): Promise<HandlerResponse> {
+  if (!(await claimUploadSession(client, session.id))) {
+    return createErrorResponse(409, 'This upload is already being completed', ErrorCodes.INVALID_STATE, { session_id: session.id });
+  }
+
+  try {
+    const { file, sha256 } = await assembleUpload(session);
+    if (sha256 !== session.sha256 || file.length !== session.total_size) {
+      await finishUploadSession(client, session.id, 'open');
+      return createErrorResponse(422, 'Assembled file does not match the declared size and sha256', ErrorCodes.VALIDATION_ERROR, {
+        expected: { size: session.total_size, sha256: session.sha256 },
+        actual: { size: file.length, sha256 },
+        hint: 'Compare received_parts from GET with the parts sent and resend any that differ'
+      });
+    }
+
+    // The file is exactly what the client meant to send, so resending parts cannot fix it
+    const fileCheck = validateUploadedFile(file, session.filename);
+    if (!fileCheck.success) {
+      await finishUploadSession(client, session.id, 'aborted');
+      await deleteUploadParts(session.tenant_id, session.id).catch(error => console.error('Failed to delete upload parts:', error));
+      return createErrorResponse(fileCheck.statusCode, fileCheck.error.error, fileCheck.error.code, {
+        ...fileCheck.error.details,
+        session_id: session.id,
+        status: 'aborted'
+      });
+    }
+
+    const uploaded = await findUploadedFile(client, session.tenant_id, sha256);
+    if (uploaded.document && !session.new_version) {
+      await finishUploadSession(client, session.id, 'completed', uploaded.document.doc_id);
+      await deleteUploadParts(session.tenant_id, session.id).catch(error => console.error('Failed to delete upload parts:', error));
+      return jsonResponse(200, existingUploadBody(uploaded.document, sha256), rateLimit);
+    }
+
+    const docId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const ext = session.filename.split('.').pop() || 'bin';
+    const blobPath = `${session.tenant_id}/${docId}/${sha256}.${ext}`;
+    const fileVersion = uploaded.latestVersion + 1;
+
+    // uploaded_at lets nightly maintenance tell a fresh upload from an orphan
+    const store = getStore('uploads');
+    await store.set(blobPath, file as unknown as ArrayBuffer, {
+      metadata: { uploaded_at: new Date().toISOString() }
+    });
+
+    const dbDocId = await insertUploadedDocument(client, {
+      tenantId: session.tenant_id,
+      docId,
+      title: session.title,
+      documentType: session.document_type,
+      teksCodes: session.teks_codes,
+      filename: session.filename,
+      mimetype: fileCheck.mimetype,
+      uploadedBy: userId,
+      blobPath,
+      fileSize: file.length,
+      fileSha256: sha256,
+      fileVersion,
+      versionOf: uploaded.document?.doc_id
+    });
+
+    // Another upload of the same file took this version first; drop our copy and return theirs
+    if (dbDocId === null) {
+      await store.delete(blobPath).catch(error => console.error('Failed to remove duplicate upload blob:', error));
+      const winner = await findUploadedFile(client, session.tenant_id, sha256);
+      if (!winner.document) {
+        await finishUploadSession(client, session.id, 'open');
+        return createErrorResponse(409, 'A concurrent upload of this file is in progress', ErrorCodes.INVALID_STATE, { file_sha256: sha256 });
+      }
+      await finishUploadSession(client, session.id, 'completed', winner.document.doc_id);
+      return jsonResponse(200, existingUploadBody(winner.document, sha256), rateLimit);
+    }
+
+    await finishUploadSession(client, session.id, 'completed', docId);
+    // Parts left behind here are removed by nightly maintenance
+    await deleteUploadParts(session.tenant_id, session.id).catch(error => console.error('Failed to delete upload parts:', error));
+
+    return jsonResponse(200, {
+      doc_id: docId,
+      db_id: dbDocId,
+      blob_path: blobPath,
+      file_size: file.length,
+      file_sha256: sha256,
+      version: fileVersion,
+      version_of: uploaded.document?.doc_id ?? null,
+      teks_codes: session.teks_codes,
+      status: 'UPLOADED',
+      duplicate: false
+    }, rateLimit);
+
+  } catch (error) {
+    await finishUploadSession(client, session.id, 'open').catch(() => {});
+    throw error;
+  }
+}
+
+// Resumable uploads for files over upload's 10 MB limit, up to 32 MB.
+//   POST   { filename, title, type, size, sha256, ... }   start a session (or get the existing document back)
+//   PUT    ?session_id=&part=N   send part N (1-based) as the raw body; resending a part replaces it
+//   GET    ?session_id=          received and missing parts, to resume after a dropped connection
+//   POST   ?session_id=&action=complete   assemble, verify the sha256 and content type, and register the document
+//   DELETE ?session_id=          abort and discard the parts
+// Completed uploads are ingested through ingest-start like any other.
+export const handler: Handler = async (event, context) => {
+  if (!['GET', 'POST', 'PUT', 'DELETE'].includes(event.httpMethod)) {
+    return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
+  }
+
+  try {
+    const authResult = await authenticate(event, ['teacher', 'admin']);
+    if (!authResult.success) {
+      return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
+    }
+    const { tenantId, userId } = authResult.auth;
+
+    const sessionId = event.queryStringParameters?.session_id;
+    const action = event.queryStringParameters?.action;
+    const starting = event.httpMethod === 'POST' && !sessionId;
+
+    let start: z.infer<typeof StartSchema> | undefined;
+    if (starting) {
+      const validationResult = validateRequestBody(event.body, StartSchema);
+      if (!validationResult.success) {
+        return createErrorResponse(400, validationResult.error.error, validationResult.error.code, validationResult.error.details);
+      }
+      start = validationResult.data;
+    } else if (!sessionId || !z.string().uuid().safeParse(sessionId).success) {
+      return createErrorResponse(400, 'Missing or invalid session_id parameter', ErrorCodes.VALIDATION_ERROR);
+    } else if (event.httpMethod === 'POST' && action !== 'complete') {
+      return createErrorResponse(400, 'action must be "complete"', ErrorCodes.VALIDATION_ERROR, { action });
+    }
+
+    const client = new Client({
+      connectionString: process.env.NETLIFY_DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+
+    await client.connect();
+
+    try {
+      await setTenantScope(client, tenantId);
+
+      // Starting and completing count as uploads; parts and status checks have their own, larger bucket
+      const route: RateLimitRoute = event.httpMethod === 'POST' ? 'upload' : 'upload-part';
+      const rateLimit = await consumeRateLimit(client, tenantId, route);
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse(route, rateLimit);
+      }
+
+      if (start) {
+        // The content is checked on completion; an extension we would refuse anyway is refused now
+        const extensionCheck = checkFileExtension(start.filename);
+        if (!extensionCheck.success) {
+          return createErrorResponse(extensionCheck.statusCode, extensionCheck.error.error, extensionCheck.error.code, extensionCheck.error.details);
+        }
+
+        // Nothing to send if the tenant already has this file
+        const uploaded = await findUploadedFile(client, tenantId, start.sha256);
+        if (uploaded.document && !start.new_version) {
+          return jsonResponse(200, existingUploadBody(uploaded.document, start.sha256), rateLimit);
+        }
+
+        const session = await createUploadSession(client, {
+          tenantId,
+          createdBy: userId,
+          filename: start.filename,
+          mimetype: start.mimetype,
+          title: start.title,
+          documentType: start.type,
+          teksCodes: [...new Set(start.teks)],
+          newVersion: start.new_version,
+          totalSize: start.size,
+          sha256: start.sha256
+        });
+        console.log(`Upload session ${session.id} started by ${userId}: ${session.total_size} bytes in ${session.part_count} parts`);
+        return jsonResponse(201, sessionSummary(session, []), rateLimit);
+      }
+
+      const found = await getUploadSession(client, tenantId, userId, sessionId!);
+      if (!found) {
+        return createErrorResponse(404, 'Upload session not found', ErrorCodes.NOT_FOUND, { session_id: sessionId });
+      }
+      const { session, parts } = found;
+
+      if (event.httpMethod === 'GET') {
+        return jsonResponse(200, sessionSummary(session, parts), rateLimit);
+      }
+
+      // Completing again after a lost response returns the document
+      if (session.status === 'completed' && event.httpMethod === 'POST') {
+        return jsonResponse(200, { session_id: session.id, status: session.status, doc_id: session.doc_id }, rateLimit);
+      }
+
+      if (session.status !== 'open') {
+        return createErrorResponse(409, `Upload session is ${session.status}`, ErrorCodes.INVALID_STATE, {
+          session_id: session.id,
+          status: session.status
+        });
+      }
+
+      if (event.httpMethod === 'DELETE') {
+        await finishUploadSession(client, session.id, 'aborted');
+        const deleted = await deleteUploadParts(tenantId, session.id);
+        return jsonResponse(200, { session_id: session.id, status: 'aborted', parts_deleted: deleted }, rateLimit);
+      }
+
+      if (event.httpMethod === 'PUT') {
+        const partNumber = Number(event.queryStringParameters?.part);
+        if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.part_count) {
+          return createErrorResponse(400, `part must be between 1 and ${session.part_count}`, ErrorCodes.VALIDATION_ERROR, {
+            part: event.queryStringParameters?.part
+          });
+        }
+
+        const body = Buffer.from(event.body ?? '', event.isBase64Encoded ? 'base64' : 'utf8');
+        const expectedSize = expectedPartSize(session, partNumber);
+        if (body.length !== expectedSize) {
+          return createErrorResponse(400, `Part ${partNumber} must be ${expectedSize} bytes`, ErrorCodes.VALIDATION_ERROR, {
+            part: partNumber,
+            size: body.length,
+            expected_size: expectedSize
+          });
+        }
+
+        const part = await saveUploadPart(client, session, partNumber, body);
+        return jsonResponse(200, { session_id: session.id, ...part }, rateLimit);
+      }
+
+      const missing = missingParts(session, parts);
+      if (missing.length > 0) {
+        return createErrorResponse(409, 'Upload is missing parts', ErrorCodes.INVALID_STATE, {
+          session_id: session.id,
+          missing_parts: missing
+        });
+      }
+
+      return await completeUpload(client, session, userId, rateLimit);
+    } finally {
+      await client.end();
+    }
+
+  } catch (error) {
+    console.error('Upload session error:', error);
+    return createErrorResponse(500, 'Upload session request failed', ErrorCodes.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
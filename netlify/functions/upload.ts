@@ -3,7 +3,14 @@ import { getStore } from '@netlify/blobs';
 import { Client } from 'pg';
 import busboy from 'busboy';
 import { Readable } from 'stream';
-import { createErrorResponse, ErrorCodes, checkRateLimit, getClientIP } from './shared/utils';
+import { createHash } from 'crypto';
+import { createErrorResponse, ErrorCodes } from './shared/utils';
+import { setTenantScope } from './shared/tenant';
+import { authenticate } from './shared/auth';
+import { parseTeksCodes } from './shared/teks';
+import { consumeRateLimit, rateLimitHeaders, rateLimitedResponse, RateLimitDecision } from './shared/rate-limit';
+import { findUploadedFile, insertUploadedDocument, existingUploadBody, UploadedFile } from './shared/documents';
+import { validateUploadedFile } from './shared/file-validation';
 
 interface UploadData {
   file?: {
@@ -14,6 +21,21 @@ interface UploadData {
   title?: string;
   type?: string;
   tenant_id?: string;
+  teks?: string;       // comma-separated TEKS codes, e.g. "6.6(B), 6.7(A)"
+  new_version?: string; // "true" to store a file the tenant already has as a new document
+}
+
+// The tenant already has this file: hand back that document instead of a copy
+function existingDocumentResponse(document: UploadedFile, fileSha256: string, rateLimit: RateLimitDecision): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      ...rateLimitHeaders(rateLimit)
+    },
+    body: JSON.stringify(existingUploadBody(document, fileSha256))
+  };
 }
 
 export const handler = async (event: HandlerEvent, context: HandlerContext): Promise<HandlerResponse> => {
@@ -21,14 +43,28 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     return createErrorResponse(405, 'Method not allowed', ErrorCodes.METHOD_NOT_ALLOWED);
   }
 
-  // Rate limiting
-  const clientIP = getClientIP(event);
-  const rateLimitResult = checkRateLimit(clientIP);
-  if (!rateLimitResult.allowed) {
-    return createErrorResponse(429, rateLimitResult.error.error, rateLimitResult.error.code, rateLimitResult.error.details);
+  // Only staff upload; the tenant comes from the verified token
+  const authResult = await authenticate(event, ['teacher', 'admin']);
+  if (!authResult.success) {
+    return createErrorResponse(authResult.statusCode, authResult.error.error, authResult.error.code, authResult.error.details);
   }
+  const tenantId = authResult.auth.tenantId;
+
+  const client = new Client({
+    connectionString: process.env.NETLIFY_DATABASE_URL,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  });
 
   try {
+    await client.connect();
+    await setTenantScope(client, tenantId);
+
+    // Checked before the body is parsed or anything is stored
+    const rateLimit = await consumeRateLimit(client, tenantId, 'upload');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse('upload', rateLimit);
+    }
+
     const uploadData: UploadData = {};
     
     // Parse multipart form data
@@ -60,6 +96,8 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
         if (name === 'title') uploadData.title = value;
         if (name === 'type') uploadData.type = value;
         if (name === 'tenant_id') uploadData.tenant_id = value;
+        if (name === 'teks') uploadData.teks = value;
+        if (name === 'new_version') uploadData.new_version = value;
       });
 
       bb.on('close', () => {
@@ -85,20 +123,49 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
       return createErrorResponse(400, 'No file provided', ErrorCodes.MISSING_REQUIRED_FIELD);
     }
 
-    if (!uploadData.title || !uploadData.type || !uploadData.tenant_id) {
-      return createErrorResponse(400, 'Missing required fields: title, type, tenant_id', ErrorCodes.VALIDATION_ERROR, {
-        missing: ['title', 'type', 'tenant_id'].filter(field => !uploadData[field as keyof UploadData])
+    if (!uploadData.title || !uploadData.type) {
+      return createErrorResponse(400, 'Missing required fields: title, type', ErrorCodes.VALIDATION_ERROR, {
+        missing: ['title', 'type'].filter(field => !uploadData[field as keyof UploadData])
+      });
+    }
+
+    // The form field is optional now; if sent it must agree with the caller's tenant
+    if (uploadData.tenant_id && uploadData.tenant_id !== tenantId) {
+      return createErrorResponse(403, 'tenant_id does not match the caller tenant', ErrorCodes.FORBIDDEN);
+    }
+
+    const teks = parseTeksCodes(uploadData.teks || '');
+    if (teks.invalid.length > 0) {
+      return createErrorResponse(400, 'Invalid TEKS codes', ErrorCodes.VALIDATION_ERROR, {
+        invalid: teks.invalid,
+        example: '6.6(B)'
       });
     }
 
-    // Validate file size (10MB limit)
+    // Validate file size (10MB limit); larger files go through resumable upload sessions
     if (uploadData.file.buffer.length > 10 * 1024 * 1024) {
-      return createErrorResponse(400, 'File too large. Maximum size is 10MB', ErrorCodes.VALIDATION_ERROR, {
+      return createErrorResponse(400, 'File too large. Maximum size is 10MB; use /api/upload-session for larger files', ErrorCodes.VALIDATION_ERROR, {
         fileSize: uploadData.file.buffer.length,
         maxSize: 10 * 1024 * 1024
       });
     }
 
+    // What the file is comes from its bytes, not the client's mimetype
+    const fileCheck = validateUploadedFile(uploadData.file.buffer, uploadData.file.filename);
+    if (!fileCheck.success) {
+      return createErrorResponse(fileCheck.statusCode, fileCheck.error.error, fileCheck.error.code, fileCheck.error.details);
+    }
+
+    // Same bytes, same document: re-uploads return the existing one unless a new version is asked for
+    const fileSha256 = createHash('sha256').update(uploadData.file.buffer).digest('hex');
+    const newVersion = uploadData.new_version === 'true';
+    const uploaded = await findUploadedFile(client, tenantId, fileSha256);
+    if (uploaded.document && !newVersion) {
+      console.log(`Upload of ${fileSha256} matches ${uploaded.document.doc_id}, returning it`);
+      return existingDocumentResponse(uploaded.document, fileSha256, rateLimit);
+    }
+    const fileVersion = uploaded.latestVersion + 1;
+
     // Generate document ID
     const doc_id = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -107,8 +174,9 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     const ext = filename.split('.').pop() || 'bin';
     
     // Save file to Blobs with proper error handling
-    let blobPath = `${uploadData.tenant_id}/${doc_id}/original.${ext}`;
+    let blobPath = `${tenantId}/${doc_id}/${fileSha256}.${ext}`;
     let blobStorageSuccess = false;
+    let store;
     
     try {
       // Configure Netlify Blobs with explicit siteID and token for production
@@ -116,7 +184,6 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
       const siteId = process.env.NETLIFY_SITE_ID || '88476d1e-df1f-4215-93fc-49e736b65d4e';
       const token = process.env.NETLIFY_TOKEN;
       
-      let store;
       if (siteId && token) {
         // Use explicit configuration for production
         console.log('Using explicit Netlify Blobs configuration with siteID:', siteId.substring(0, 8) + '...');
@@ -131,7 +198,10 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
         store = getStore('uploads');
       }
       
-      await store.set(blobPath, uploadData.file.buffer as unknown as ArrayBuffer);
+      // uploaded_at lets nightly maintenance tell a fresh upload from an orphan
+      await store.set(blobPath, uploadData.file.buffer as unknown as ArrayBuffer, {
+        metadata: { uploaded_at: new Date().toISOString() }
+      });
       blobStorageSuccess = true;
       console.log('Successfully stored file in Netlify Blobs:', blobPath);
     } catch (blobError) {
@@ -152,62 +222,53 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     }
 
     // Insert into database
-    const client = new Client({
-      connectionString: process.env.NETLIFY_DATABASE_URL,
-      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    const dbDocId = await insertUploadedDocument(client, {
+      tenantId,
+      docId: doc_id,
+      title: uploadData.title,
+      documentType: uploadData.type,
+      teksCodes: teks.codes,
+      filename,
+      mimetype: fileCheck.mimetype,
+      uploadedBy: authResult.auth.userId,
+      blobPath,
+      fileSize: uploadData.file.buffer.length,
+      fileSha256,
+      fileVersion,
+      versionOf: uploaded.document?.doc_id
     });
 
-    await client.connect();
-    
-    try {
-      const result = await client.query(`
-        INSERT INTO rag.documents (
-          title, 
-          content, 
-          document_type, 
-          metadata,
-          source_url,
-          created_at,
-          updated_at
-        ) VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-        RETURNING id
-      `, [
-        uploadData.title,
-        '', // Content will be extracted later
-        uploadData.type,
-        JSON.stringify({
-          status: 'UPLOADED',
-          original_filename: filename,
-          mimetype: uploadData.file.mimetype,
-          tenant_id: uploadData.tenant_id,
-          doc_id: doc_id,
-          blob_path: blobPath,
-          file_size: uploadData.file.buffer.length
-        }),
-        blobPath
-      ]);
-
-      const dbDocId = result.rows[0].id;
-
-      return {
-        statusCode: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        },
-        body: JSON.stringify({ 
-          doc_id: doc_id,
-          db_id: dbDocId,
-          blob_path: blobPath,
-          file_size: uploadData.file.buffer.length,
-          status: 'UPLOADED'
-        })
-      };
-
-    } finally {
-      await client.end();
+    // Another upload of the same file took this version first; drop our copy and return theirs
+    if (dbDocId === null) {
+      await store!.delete(blobPath).catch(error => console.error('Failed to remove duplicate upload blob:', error));
+      const winner = await findUploadedFile(client, tenantId, fileSha256);
+      if (!winner.document) {
+        return createErrorResponse(409, 'A concurrent upload of this file is in progress', ErrorCodes.INVALID_STATE, { file_sha256: fileSha256 });
+      }
+      return existingDocumentResponse(winner.document, fileSha256, rateLimit);
     }
 
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...rateLimitHeaders(rateLimit)
+      },
+      body: JSON.stringify({ 
+        doc_id: doc_id,
+        db_id: dbDocId,
+        blob_path: blobPath,
+        file_size: uploadData.file.buffer.length,
+        file_sha256: fileSha256,
+        version: fileVersion,
+        version_of: uploaded.document?.doc_id ?? null,
+        teks_codes: teks.codes,
+        status: 'UPLOADED',
+        duplicate: false
+      })
+    };
+
   } catch (error) {
     console.error('Upload error:', error);
     
@@ -230,5 +291,7 @@ export const handler = async (event: HandlerEvent, context: HandlerContext): Pro
     return createErrorResponse(500, errorMessage, errorCode, {
       message: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    await client.end().catch(() => {});
   }
 };
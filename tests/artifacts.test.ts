@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+const blobs = new Map<string, string>();
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: (name: string) => ({
+    get: vi.fn(async (key: string) => blobs.get(`${name}/${key}`) ?? null)
+  })
+}));
+
+let documentMetadata: Record<string, any> | null = null;
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string) => ({
+      rows: sql.includes('FROM rag.documents') && documentMetadata ? [{ metadata: documentMetadata }] : []
+    }))
+  }))
+}));
+
+import { buildTextStructure, artifactKey } from '../netlify/functions/shared/artifacts';
+import { chunkText } from '../netlify/functions/shared/chunker';
+import { handler as docExtracted } from '../netlify/functions/doc-extracted';
+
+describe('extracted text structure', () => {
+  it('records page and section offsets into the full text', () => {
+    const text = '# Chapter 1: The Lake\nBrian looked at the water.\fHe was hungry.\n# Chapter 2: Fire\nThe hatchet sparked.';
+    const structure = buildTextStructure(text, 'abc', chunkText(text));
+
+    expect(structure.characters).toBe(text.length);
+    expect(structure.pages).toEqual([
+      { page: 1, start: 0, end: 48 },
+      { page: 2, start: 49, end: text.length }
+    ]);
+    expect(structure.sections.map(section => [section.title, section.page])).toEqual([
+      ['Chapter 1: The Lake', 1],
+      ['Chapter 2: Fire', 2]
+    ]);
+    expect(text.slice(structure.sections[1].start, structure.sections[1].end)).toBe('# Chapter 2: Fire\nThe hatchet sparked.');
+    expect(text.slice(structure.sections[0].start, structure.sections[0].end)).toContain('He was hungry.');
+    expect(structure.chunks[0]).toMatchObject({ chunk_index: 0, start_token: 0, page_range: [1, 2] });
+  });
+});
+
+describe('doc-extracted', () => {
+  beforeEach(() => {
+    blobs.clear();
+    documentMetadata = null;
+  });
+
+  async function download(artifact?: string) {
+    const authorization = `Bearer ${await signToken({ sub: 'student-1', tenant_id: 'tenant_a', role: 'student' })}`;
+    return docExtracted({
+      httpMethod: 'GET',
+      headers: { authorization },
+      queryStringParameters: { doc_id: 'doc-1', ...(artifact && { artifact }) }
+    } as any, {} as any);
+  }
+
+  it('serves the full text from the pointer saved on the document', async () => {
+    const text = 'word '.repeat(5000);
+    blobs.set(`extracted/${artifactKey('tenant_a', 'doc-1', 'text')}`, text);
+    documentMetadata = {
+      doc_id: 'doc-1',
+      extracted: {
+        text_key: artifactKey('tenant_a', 'doc-1', 'text'),
+        structure_key: artifactKey('tenant_a', 'doc-1', 'structure'),
+        text_sha256: 'abc'
+      }
+    };
+
+    const response = await download();
+
+    expect(response?.statusCode).toBe(200);
+    expect(response?.headers?.['Content-Type']).toBe('text/plain; charset=utf-8');
+    expect(response?.body).toHaveLength(25000);
+  });
+
+  it('answers 409 before extraction and 404 for another tenant\'s document', async () => {
+    documentMetadata = { doc_id: 'doc-1', status: 'QUEUED' };
+    expect((await download('structure'))?.statusCode).toBe(409);
+
+    documentMetadata = null;
+    expect((await download())?.statusCode).toBe(404);
+  });
+
+  it('rejects artifact names that are not text or structure', async () => {
+    for (const artifact of ['toString', 'constructor', 'original']) {
+      expect((await download(artifact))?.statusCode).toBe(400);
+    }
+  });
+});
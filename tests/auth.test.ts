@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { signToken } from './helpers/tokens';
+import { authenticate } from '../netlify/functions/shared/auth';
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async () => ({ rows: [] }))
+  }))
+}));
+
+import { handler as dbMigrate } from '../netlify/functions/db-migrate';
+
+function withToken(token: string) {
+  return { headers: { authorization: `Bearer ${token}` } };
+}
+
+describe('authenticate', () => {
+  it('returns the user, tenant and role from a valid token', async () => {
+    const token = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'teacher' });
+    const result = await authenticate(withToken(token));
+
+    expect(result).toEqual({
+      success: true,
+      auth: { userId: 'user-42', tenantId: 'district_7', role: 'teacher' }
+    });
+  });
+
+  it('rejects missing, forged and expired tokens with 401', async () => {
+    const missing = await authenticate({ headers: {} });
+    expect(missing.success === false && missing.statusCode).toBe(401);
+
+    const valid = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'teacher' });
+    const forged = valid.slice(0, -4) + 'AAAA';
+    const forgedResult = await authenticate(withToken(forged));
+    expect(forgedResult.success === false && forgedResult.error.code).toBe('UNAUTHORIZED');
+
+    const expired = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'teacher' }, Math.floor(Date.now() / 1000) - 60);
+    const expiredResult = await authenticate(withToken(expired));
+    expect(expiredResult.success === false && expiredResult.statusCode).toBe(401);
+  });
+
+  it('rejects tokens without a usable tenant or role', async () => {
+    const noTenant = await signToken({ sub: 'user-42', role: 'teacher' });
+    expect((await authenticate(withToken(noTenant))).success).toBe(false);
+
+    const badRole = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'superuser' });
+    expect((await authenticate(withToken(badRole))).success).toBe(false);
+  });
+
+  it('returns a configuration error when no verification key is set', async () => {
+    const token = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'teacher' });
+    vi.stubEnv('AUTH_JWT_SECRET', '');
+    try {
+      const result = await authenticate(withToken(token));
+      expect(result).toMatchObject({ success: false, statusCode: 500, error: { code: 'CONFIGURATION_ERROR' } });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('returns 403 when the role is not allowed', async () => {
+    const token = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'student' });
+    const result = await authenticate(withToken(token), ['teacher', 'admin']);
+
+    expect(result.success === false && result.statusCode).toBe(403);
+  });
+});
+
+describe('db-migrate authorization', () => {
+  it('requires an admin token', async () => {
+    const token = await signToken({ sub: 'user-42', tenant_id: 'district_7', role: 'teacher' });
+    const response = await dbMigrate({ httpMethod: 'POST', headers: { authorization: `Bearer ${token}` }, body: '{}' } as any, {} as any);
+
+    expect(response?.statusCode).toBe(403);
+    expect(JSON.parse(response!.body!).code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, countTokens, sectionNumber, splitSentences } from '../netlify/functions/shared/chunker';
+
+function sentences(count: number, prefix = 'Sentence'): string {
+  return Array.from({ length: count }, (_, i) => `${prefix} number ${i + 1} talks about the quiet harbor town.`).join(' ');
+}
+
+describe('splitSentences', () => {
+  it('splits on terminal punctuation but not on abbreviations or initials', () => {
+    expect(splitSentences('Dr. Smith met J. R. Tolkien. They talked! Did it rain? "Yes," he said.')).toEqual([
+      'Dr. Smith met J. R. Tolkien.',
+      'They talked!',
+      'Did it rain?',
+      '"Yes," he said.'
+    ]);
+  });
+});
+
+describe('chunkText', () => {
+  it('keeps chunks within the token budget and ends them on sentence boundaries', () => {
+    const chunks = chunkText(sentences(200), { maxTokens: 100, overlapTokens: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk.text)).toBeLessThanOrEqual(100);
+      expect(chunk.text.endsWith('.')).toBe(true);
+    }
+  });
+
+  it('overlaps consecutive chunks and reports token offsets', () => {
+    const chunks = chunkText(sentences(60), { maxTokens: 100, overlapTokens: 30 });
+
+    expect(chunks[0].start_token).toBe(0);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start_token).toBeLessThan(chunks[i - 1].end_token);
+      expect(chunks[i].end_token).toBeGreaterThan(chunks[i - 1].end_token);
+      expect(chunks[i - 1].end_token - chunks[i].start_token).toBeLessThanOrEqual(30);
+    }
+  });
+
+  it('attributes chunks to the most recent heading', () => {
+    const text = `# Chapter 1\n\n${sentences(20, 'Early')}\n\n# Chapter 2\n\n${sentences(20, 'Later')}`;
+    const chunks = chunkText(text, { maxTokens: 120, overlapTokens: 0 });
+
+    expect(chunks[0].section).toBe('Chapter 1');
+    expect(chunks[0].text.startsWith('Chapter 1\n\nEarly number 1')).toBe(true);
+    expect(chunks[chunks.length - 1].section).toBe('Chapter 2');
+  });
+
+  it('derives page ranges from form-feed page breaks', () => {
+    const text = [sentences(3, 'One'), sentences(3, 'Two'), sentences(3, 'Three')].join('\f');
+    const [chunk] = chunkText(text);
+
+    expect(chunk.page_range).toEqual([1, 3]);
+    expect(chunkText('No pages here.')[0].page_range).toBeNull();
+  });
+
+  it('word-wraps a sentence longer than the budget', () => {
+    const longSentence = Array.from({ length: 300 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(longSentence, { maxTokens: 50, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => countTokens(chunk.text) <= 50)).toBe(true);
+  });
+});
+
+describe('sectionNumber', () => {
+  it('reads digit, spelled-out and roman chapter numbers', () => {
+    expect(sectionNumber('Chapter 3: The Storm')).toBe(3);
+    expect(sectionNumber('CHAPTER XIV')).toBe(14);
+    expect(sectionNumber('Part Two')).toBe(2);
+    expect(sectionNumber('7. The Moose')).toBe(7);
+  });
+
+  it('ignores headings without a number', () => {
+    expect(sectionNumber('Introduction')).toBeNull();
+    expect(sectionNumber('I Remember')).toBeNull();
+    expect(sectionNumber(null)).toBeNull();
+  });
+});
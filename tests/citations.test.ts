@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildCitations } from '../netlify/functions/shared/citations';
+import { packContext } from '../netlify/functions/shared/context-packer';
+import { ChunkResult } from '../netlify/functions/shared/retrieval';
+
+function chunk(id: number, chunk_index: number, content: string, extra: Partial<ChunkResult> = {}): ChunkResult {
+  return {
+    id, chunk_index, content,
+    similarity: 0.9, keyword_rank: null, score: 1,
+    doc_id: 1, document_id: 'doc-web', document_title: 'Charlotte\'s Web',
+    section: 'Chapter 1', page_from: chunk_index + 1, page_to: chunk_index + 1,
+    ...extra
+  };
+}
+
+describe('buildCitations', () => {
+  it('maps each marker to its passage, document and the exact sentence it rests on', () => {
+    const chunks = [
+      chunk(10, 0, 'Fern woke early. Her father was going to kill the runt pig.'),
+      chunk(11, 1, 'Fern begged him to spare the pig. He gave her the pig, and she named him Wilbur.'),
+      chunk(20, 0, 'Charlotte was a large grey spider.', { doc_id: 2, document_id: 'doc-spiders', document_title: 'Spiders', section: null })
+    ];
+    const packed = packContext(chunks, 3000);
+    const answer = 'Fern named the pig Wilbur [1]. Charlotte was a grey spider [2].';
+
+    const { citations, unresolved_citations } = buildCitations(answer, packed, chunks);
+
+    expect(unresolved_citations).toEqual([]);
+    expect(citations[0]).toMatchObject({
+      marker: 1,
+      chunk_ids: [10, 11],
+      document_id: 'doc-web',
+      section: 'Chapter 1',
+      pages: 'pp. 1–2',
+      claims: ['Fern named the pig Wilbur.']
+    });
+    const quote = citations[0].quote!;
+    expect(quote.text).toBe('He gave her the pig, and she named him Wilbur.');
+    expect(chunks[1].content.slice(quote.start, quote.end)).toBe(quote.text);
+    expect(citations[1]).toMatchObject({ marker: 2, document_id: 'doc-spiders', quote: { chunk_id: 20 } });
+  });
+
+  it('lists markers with no passage behind them separately', () => {
+    const chunks = [chunk(10, 0, 'Wilbur was a pig.')];
+    const packed = packContext(chunks, 3000);
+
+    const result = buildCitations('Wilbur was a pig [1]. Templeton was a rat [4]. He ate a lot [0].', packed, chunks);
+
+    expect(result.citations.map(citation => citation.marker)).toEqual([1]);
+    expect(result.unresolved_citations).toEqual([0, 4]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { packContext, renderContext, joinOverlapping } from '../netlify/functions/shared/context-packer';
+import { ChunkResult } from '../netlify/functions/shared/retrieval';
+
+function chunk(id: number, fields: Partial<ChunkResult> & { content: string }): ChunkResult {
+  return {
+    id,
+    chunk_index: id,
+    similarity: 0.9,
+    keyword_rank: null,
+    score: 1 / id,
+    doc_id: 1,
+    document_title: 'Hatchet',
+    section: 'Chapter 1',
+    page_from: id,
+    page_to: id,
+    ...fields
+  };
+}
+
+const brian = 'Brian Robeson stared out the window of the small plane.';
+const pilot = 'The pilot had a heart attack over the forest.';
+const lake = 'The plane came down in an L-shaped lake.';
+
+describe('joinOverlapping', () => {
+  it('drops the sentences the chunker repeated at the start of the next chunk', () => {
+    expect(joinOverlapping(`${brian} ${pilot}`, `${pilot} ${lake}`)).toBe(`${brian} ${pilot} ${lake}`);
+    expect(joinOverlapping(brian, lake)).toBe(`${brian} ${lake}`);
+  });
+});
+
+describe('packContext', () => {
+  it('merges adjacent chunks from one document into a single cited passage', () => {
+    const packed = packContext([
+      chunk(2, { content: `${pilot} ${lake}`, section: 'Chapter 2' }),
+      chunk(1, { content: `${brian} ${pilot}` })
+    ], 1000);
+
+    expect(packed.passages).toHaveLength(1);
+    expect(packed.passages[0]).toMatchObject({
+      citation: 1,
+      chunk_ids: [1, 2],
+      section: 'Chapter 1 – Chapter 2',
+      page_from: 1,
+      page_to: 2,
+      text: `${brian} ${pilot} ${lake}`
+    });
+    expect(packed.included).toEqual([{ chunk_id: 1, citation: 1 }, { chunk_id: 2, citation: 1 }]);
+    expect(renderContext(packed)).toContain('[1] (Hatchet, Chapter 1 – Chapter 2, pp. 1–2) Brian Robeson');
+  });
+
+  it('drops near-duplicates of a better-ranked chunk, even from another document', () => {
+    const packed = packContext([
+      chunk(1, { content: `${brian} ${pilot} ${lake}` }),
+      chunk(7, { content: `${brian} ${pilot} ${lake}`, doc_id: 2, document_title: 'Hatchet (copy)' })
+    ], 1000);
+
+    expect(packed.dropped).toEqual([{ chunk_id: 7, reason: 'duplicate', duplicate_of: 1 }]);
+  });
+
+  it('keeps the best-ranked chunks that fit the token budget and reports the rest', () => {
+    const long = chunk(5, { content: `${lake} `.repeat(40), doc_id: 3 });
+    const packed = packContext([chunk(1, { content: brian }), long, chunk(9, { content: pilot, doc_id: 4 })], 40);
+
+    expect(packed.included.map(entry => entry.chunk_id)).toEqual([1, 9]);
+    expect(packed.dropped).toEqual([{ chunk_id: 5, reason: 'budget' }]);
+    expect(packed.tokens_used).toBeLessThanOrEqual(40);
+    expect(packed.passages.map(passage => passage.citation)).toEqual([1, 2]);
+  });
+});
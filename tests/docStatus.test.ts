@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+// One document half-way through embedding after a failed first attempt
+const metadata = {
+  doc_id: 'doc-1',
+  status: 'EMBEDDING',
+  original_filename: 'hatchet.pdf',
+  ingestion: {
+    stages: {
+      UPLOADED: '2026-10-01T10:00:00.000Z',
+      QUEUED: '2026-10-01T10:00:05.000Z',
+      PROCESSING: '2026-10-01T10:01:00.000Z',
+      EXTRACTED: '2026-10-01T10:01:30.000Z',
+      CHUNKED: '2026-10-01T10:01:31.000Z',
+      EMBEDDING: '2026-10-01T10:02:10.000Z'
+    },
+    progress: { total: 400, embedded: 120, failed: 2 },
+    error: { stage: 'EMBEDDING', message: 'Rate limit reached', at: '2026-10-01T10:00:50.000Z' },
+    job_id: 9,
+    attempt: 2
+  }
+};
+
+const queries: { sql: string; params?: any[] }[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('FROM rag.ingest_jobs')) {
+        return { rows: [{ id: '9', status: 'running', attempts: 2, max_attempts: 5, run_after: null, last_error: 'Rate limit reached' }] };
+      }
+      if (sql.includes('FROM rag.documents')) {
+        return { rows: [{ id: 1, tenant_id: 'tenant_a', title: 'Hatchet', metadata, chunks_count: '120' }] };
+      }
+      return { rows: [] };
+    })
+  }))
+}));
+
+import { handler as docStatus } from '../netlify/functions/doc-status';
+import { recordFailure, describeStatus } from '../netlify/functions/shared/ingest-status';
+
+describe('doc-status', () => {
+  it('reports the stage, embedding progress, last failure and job attempts', async () => {
+    const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+    const response = await docStatus({
+      httpMethod: 'GET',
+      headers: { authorization },
+      queryStringParameters: { doc_id: 'doc-1' }
+    } as any, {} as any);
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body!);
+    expect(body.status).toBe('EMBEDDING');
+    expect(body.status_text).toBe('EMBEDDING 120/400');
+    expect(body.progress).toEqual({ total: 400, embedded: 120, failed: 2, percent: 30 });
+    expect(body.error).toMatchObject({ stage: 'EMBEDDING', message: 'Rate limit reached' });
+    expect(body.stages.CHUNKED).toBe('2026-10-01T10:01:31.000Z');
+    expect(body.job).toMatchObject({ job_id: 9, status: 'running', attempts: 2, max_attempts: 5 });
+  });
+});
+
+describe('ingestion status', () => {
+  it('records a retryable failure as QUEUED with the retry time, a final one as ERROR', async () => {
+    const client = { query: vi.fn(async () => ({ rows: [] })) };
+    const retryAt = new Date('2026-10-01T10:05:00.000Z');
+
+    await recordFailure(client as any, 'tenant_a', 'doc-1', 'Rate limit reached', retryAt);
+    await recordFailure(client as any, 'tenant_a', 'doc-1', 'No text content extracted from document');
+
+    const [retry, final] = client.query.mock.calls.map(call => (call as any[])[1]);
+    expect(retry).toEqual(['doc-1', 'tenant_a', 'QUEUED', 'Rate limit reached', expect.any(String), retryAt.toISOString()]);
+    expect(final.slice(2, 4)).toEqual(['ERROR', 'No text content extracted from document']);
+    expect(final[5]).toBeNull();
+  });
+
+  it('describes embedding progress as a count', () => {
+    expect(describeStatus('EMBEDDING', { total: 400, embedded: 120, failed: 0 })).toBe('EMBEDDING 120/400');
+    expect(describeStatus('READY', { total: 400, embedded: 400, failed: 0 })).toBe('READY');
+  });
+});
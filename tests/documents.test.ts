@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+// Blob stores: name -> keys
+const stores = new Map<string, string[]>();
+const deletedBlobs: string[] = [];
+let failBlobDelete = false;
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: (name: string) => ({
+    list: async function* ({ prefix }: { prefix: string }) {
+      yield { blobs: (stores.get(name) ?? []).filter(key => key.startsWith(prefix)).map(key => ({ key, etag: '1' })), directories: [] };
+    },
+    delete: async (key: string) => {
+      if (failBlobDelete) throw new Error('Blob store unavailable');
+      deletedBlobs.push(`${name}/${key}`);
+    }
+  })
+}));
+
+const queries: { sql: string; params?: any[] }[] = [];
+let documentRow: Record<string, any> | null = null;
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('FOR UPDATE')) return { rows: documentRow ? [documentRow] : [] };
+      if (sql.includes('DELETE FROM rag.ingest_jobs')) return { rows: [], rowCount: 1 };
+      if (sql.includes('FROM rag.documents') && sql.includes('ORDER BY id DESC')) {
+        return { rows: [3, 2, 1].map(id => ({ id, doc_id: `doc-${id}`, title: `Book ${id}`, status: 'READY', file_size: '2048' })) };
+      }
+      return { rows: [] };
+    })
+  }))
+}));
+
+import { handler as documents } from '../netlify/functions/documents';
+
+async function request(method: string, options: { role?: string; query?: Record<string, string>; body?: unknown } = {}) {
+  const authorization = `Bearer ${await signToken({ sub: 'user-1', tenant_id: 'tenant_a', role: options.role ?? 'teacher' })}`;
+  const response = await documents({
+    httpMethod: method,
+    headers: { authorization },
+    queryStringParameters: options.query ?? {},
+    body: options.body === undefined ? null : JSON.stringify(options.body)
+  } as any, {} as any);
+  return { statusCode: response!.statusCode, body: JSON.parse(response!.body!) };
+}
+
+describe('documents', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    deletedBlobs.length = 0;
+    failBlobDelete = false;
+    documentRow = { id: 7, status: 'READY', chunks_count: '42' };
+    stores.set('uploads', ['tenant_a/doc-7/original.pdf', 'tenant_a/doc-70/original.pdf']);
+    stores.set('extracted', ['tenant_a/doc-7/text.txt', 'tenant_a/doc-7/structure.json']);
+  });
+
+  it('lists a page of documents with filters, title search and a cursor', async () => {
+    const response = await request('GET', {
+      role: 'student',
+      query: { type: 'novel,textbook', q: '50%_off', limit: '2', cursor: '10' }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.documents.map((doc: any) => doc.doc_id)).toEqual(['doc-3', 'doc-2']);
+    expect(response.body.documents[0].file_size).toBe(2048);
+    expect(response.body.next_cursor).toBe('2');
+    const list = queries.find(query => query.sql.includes('ORDER BY id DESC'))!;
+    expect(list.params).toEqual(['tenant_a', ['novel', 'textbook'], 'DELETING', '%50\\%\\_off%', 10, 3]);
+  });
+
+  it('rejects unknown statuses and empty or unauthorized updates', async () => {
+    expect((await request('GET', { query: { status: 'DONE' } })).statusCode).toBe(400);
+    expect((await request('PATCH', { query: { doc_id: 'doc-7' }, body: {} })).statusCode).toBe(400);
+    expect((await request('PATCH', { query: { doc_id: 'doc-7' }, body: { teks: ['not a code'] } })).statusCode).toBe(400);
+    expect((await request('PATCH', { role: 'student', query: { doc_id: 'doc-7' }, body: { title: 'Hatchet' } })).statusCode).toBe(403);
+  });
+
+  it('updates only the fields sent', async () => {
+    const response = await request('PATCH', { query: { doc_id: 'doc-7' }, body: { title: ' Hatchet ', teks: ['6.6 (b)', '6.6(B)'] } });
+
+    // The fake update returns no row, as for a missing document
+    expect(response.statusCode).toBe(404);
+    const update = queries.find(query => query.sql.includes('UPDATE rag.documents'))!;
+    expect(update.sql).toContain('title = $3');
+    expect(update.sql).toContain('teks_codes = $4::text[]');
+    expect(update.sql).not.toContain('document_type =');
+    expect(update.params).toEqual(['doc-7', 'tenant_a', 'Hatchet', ['6.6(B)'], 'DELETING']);
+  });
+
+  it('deletes the row, its jobs and every blob of the document', async () => {
+    const response = await request('DELETE', { query: { doc_id: 'doc-7' } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({
+      deleted: true,
+      doc_id: 'doc-7',
+      chunks: 42,
+      cancelled_jobs: 1,
+      blobs: { uploads: 1, extracted: 2 },
+      resumed: false
+    });
+    expect(deletedBlobs).toEqual([
+      'uploads/tenant_a/doc-7/original.pdf',
+      'extracted/tenant_a/doc-7/text.txt',
+      'extracted/tenant_a/doc-7/structure.json'
+    ]);
+    const statements = queries.map(query => query.sql.trim());
+    expect(statements.indexOf('COMMIT')).toBeLessThan(statements.findIndex(sql => sql.startsWith('DELETE FROM rag.documents')));
+  });
+
+  it('keeps the row marked DELETING when blobs fail so the delete can be retried', async () => {
+    failBlobDelete = true;
+    expect((await request('DELETE', { query: { doc_id: 'doc-7' } })).statusCode).toBe(500);
+    expect(queries.some(query => query.sql.startsWith('DELETE FROM rag.documents'))).toBe(false);
+    expect(queries.find(query => query.sql.includes('active_index_version = NULL'))?.params?.[1]).toBe('DELETING');
+
+    failBlobDelete = false;
+    documentRow = { id: 7, status: 'DELETING', chunks_count: '42' };
+    const retry = await request('DELETE', { query: { doc_id: 'doc-7' } });
+    expect(retry.statusCode).toBe(200);
+    expect(retry.body.resumed).toBe(true);
+
+    documentRow = null;
+    expect((await request('DELETE', { query: { doc_id: 'doc-7' } })).statusCode).toBe(404);
+  });
+});
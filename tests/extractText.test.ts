@@ -30,4 +30,61 @@ describe('extractText', () => {
     const out = await extractText(buf, 'file.pdf', 'application/pdf');
     expect(out).toBe('PDF TEXT');
   });
+
+  it('skips PDF pages that fail to render and reports them', async () => {
+    vi.doMock('pdf-parse', () => ({
+      default: async (_buf: Buffer, options: any) => {
+        const page = (pageIndex: number, text: string | null) => ({
+          pageIndex,
+          getTextContent: async () => {
+            if (text === null) throw new Error('Invalid font dictionary');
+            return { items: [{ str: text, transform: [0, 0, 0, 0, 0, 700] }] };
+          }
+        });
+        const texts = ['Page one text.', null, 'Page three text.'];
+        for (let i = 0; i < texts.length; i++) {
+          await options.pagerender(page(i, texts[i]));
+        }
+        return { text: '', numpages: texts.length };
+      }
+    }));
+
+    const { extractDocument } = await import('../netlify/functions/background/ingest');
+    const out = await extractDocument(Buffer.from('%PDF-1.4'), 'file.pdf', 'application/pdf');
+
+    expect(out.text).toBe('Page one text.\f\fPage three text.');
+    expect(out.failed_pages).toEqual([{ page: 2, error: 'Invalid font dictionary' }]);
+    vi.doUnmock('pdf-parse');
+  });
+
+  it('reads EPUB chapters in spine order and keeps h1-h3 as section markers', async () => {
+    vi.mock('epub2', () => {
+      const chapters: Record<string, string> = {
+        ch1: '<?xml version="1.0"?><html><head><title>Moby</title><style>p{}</style></head>' +
+          '<body><h1>Chapter 1</h1><p>Call me Ishmael.</p><p>Some years ago &mdash; never mind.</p></body></html>',
+        ch2: '<html><body><h2 class="sub">Loomings &amp; more</h2><p>There now is your insular city.</p></body></html>'
+      };
+      return {
+        EPub: {
+          createAsync: async (_path: string) => ({
+            flow: [
+              { id: 'ch1', 'media-type': 'application/xhtml+xml' },
+              { id: 'cover', 'media-type': 'image/jpeg' },
+              { id: 'ch2', 'media-type': 'application/xhtml+xml' }
+            ],
+            getChapterRawAsync: async (id: string) => chapters[id]
+          })
+        }
+      };
+    });
+
+    const mod = await import('../netlify/functions/background/ingest');
+    const { extractText } = mod as any;
+
+    const out = await extractText(Buffer.from('PK'), 'moby.epub', 'application/epub+zip');
+    expect(out).toBe(
+      '# Chapter 1\n\nCall me Ishmael.\n\nSome years ago \u2014 never mind.\n\n' +
+      '## Loomings & more\n\nThere now is your insular city.'
+    );
+  });
 });
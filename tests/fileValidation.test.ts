@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { validateUploadedFile, allowedFileKinds, checkFileExtension, detectFileKind, ZIP_LIMITS } from '../netlify/functions/shared/file-validation';
+
+// Minimal deflate ZIP; declaredSize overrides the uncompressed size written to the central directory
+function zip(files: Record<string, string | Buffer>, declaredSize?: number): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(declaredSize ?? data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += 30 + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const docx = (extra: Record<string, string | Buffer> = {}) => zip({
+  '[Content_Types].xml': '<Types/>',
+  'word/document.xml': '<w:document><w:body>Hatchet</w:body></w:document>',
+  ...extra
+});
+const epub = zip({ mimetype: 'application/epub+zip', 'META-INF/container.xml': '<container/>', 'OEBPS/ch1.xhtml': '<html/>' });
+const pdf = (body: string = '') => Buffer.from(`%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n${body}\n%%EOF\n`);
+
+function rejection(result: ReturnType<typeof validateUploadedFile>) {
+  if (result.success) throw new Error(`Expected a rejection, got ${result.kind}`);
+  return { statusCode: result.statusCode, code: result.error.code, details: result.error.details };
+}
+
+describe('upload file validation', () => {
+  it('detects the type from the bytes and reports the canonical mimetype', () => {
+    expect(validateUploadedFile(pdf(), 'atlas.pdf')).toEqual({ success: true, kind: 'pdf', mimetype: 'application/pdf' });
+    expect(validateUploadedFile(docx(), 'Hatchet.DOCX')).toMatchObject({ success: true, kind: 'docx' });
+    expect(validateUploadedFile(epub, 'moby.epub')).toMatchObject({ success: true, kind: 'epub', mimetype: 'application/epub+zip' });
+    expect(validateUploadedFile(Buffer.from('<p>A fragment</p>'), 'notes.html')).toMatchObject({ success: true, kind: 'html' });
+    expect(validateUploadedFile(Buffer.from('Plain notes, café'), 'notes.txt')).toMatchObject({ success: true, kind: 'txt' });
+
+    // Without a telling extension, text is HTML only if it opens like a page
+    expect(detectFileKind(Buffer.from('\uFEFF<!-- saved -->\n<!DOCTYPE html><html>'), 'page')).toBe('html');
+    expect(detectFileKind(Buffer.from([0x00, 0x01, 0x02]), 'data.txt')).toBeNull();
+  });
+
+  it('rejects types outside the allow-list and names that disagree with the content', () => {
+    expect(allowedFileKinds({ ALLOWED_UPLOAD_TYPES: ' PDF, docx,constructor' })).toEqual(['pdf', 'docx']);
+    expect(allowedFileKinds({})).toEqual(['pdf', 'docx', 'epub', 'txt', 'html']);
+
+    expect(rejection(validateUploadedFile(epub, 'moby.epub', { allowed: ['pdf', 'docx'] }))).toMatchObject({
+      statusCode: 415, code: 'UNSUPPORTED_FILE_TYPE', details: { detected: 'epub', allowed_extensions: ['pdf', 'docx'] }
+    });
+    expect(rejection(validateUploadedFile(zip({ 'xl/workbook.xml': '<workbook/>' }), 'grades.xlsx')).code).toBe('UNSUPPORTED_FILE_TYPE');
+    expect(rejection(validateUploadedFile(pdf(), 'essay.docx'))).toMatchObject({
+      statusCode: 400, code: 'FILE_TYPE_MISMATCH', details: { extension: 'docx', detected: 'pdf', expected_extensions: ['pdf'] }
+    });
+    expect(rejection(validateUploadedFile(Buffer.from('just text'), 'scan.pdf')).code).toBe('FILE_TYPE_MISMATCH');
+    expect(checkFileExtension('setup.exe')).toMatchObject({ success: false, statusCode: 415 });
+  });
+
+  it('limits how far a DOCX or EPUB may expand, whatever its directory claims', () => {
+    const zeros = Buffer.alloc(2 * 1024 * 1024);
+    const limits = { ...ZIP_LIMITS, maxUncompressedBytes: 1024 * 1024 };
+
+    expect(rejection(validateUploadedFile(docx({ 'word/media/blank.bin': zeros }), 'bomb.docx', { zipLimits: limits }))).toMatchObject({
+      statusCode: 413, code: 'ARCHIVE_TOO_LARGE'
+    });
+    // Highly compressible entries are refused even under the total limit
+    expect(rejection(validateUploadedFile(docx({ 'word/media/blank.bin': zeros }), 'bomb.docx')).details)
+      .toMatchObject({ entry: 'word/media/blank.bin' });
+    // The directory says 10 bytes each; inflating shows otherwise
+    const lying = zip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': zeros }, 10);
+    expect(rejection(validateUploadedFile(lying, 'bomb.docx', { zipLimits: limits })).code).toBe('ARCHIVE_TOO_LARGE');
+
+    expect(rejection(validateUploadedFile(docx({ 'word/vbaProject.bin': 'macro' }), 'report.docx')).code).toBe('UNSAFE_CONTENT');
+    expect(rejection(validateUploadedFile(docx({ '../../etc/cron.d/job': 'x' }), 'report.docx')).code).toBe('UNSAFE_CONTENT');
+  });
+
+  it('refuses encrypted documents and PDFs with scripts', () => {
+    expect(rejection(validateUploadedFile(pdf('trailer\n<< /Root 1 0 R /Encrypt 5 0 R >>'), 'locked.pdf'))).toEqual({
+      statusCode: 422, code: 'ENCRYPTED_DOCUMENT', details: { format: 'pdf' }
+    });
+    // Word wraps password-protected documents in an OLE container
+    const ole = Buffer.concat([Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), Buffer.alloc(512)]);
+    expect(rejection(validateUploadedFile(ole, 'locked.docx')).code).toBe('ENCRYPTED_DOCUMENT');
+
+    expect(rejection(validateUploadedFile(pdf('<< /S /JavaScript /JS (app.alert(1)) >>'), 'worksheet.pdf')).details)
+      .toEqual({ format: 'pdf', actions: ['JavaScript'] });
+    expect(validateUploadedFile(pdf('<< /Type /Font /Name /EncryptedFont /LaunchDate 3 >>'), 'fine.pdf').success).toBe(true);
+  });
+});
@@ -0,0 +1,14 @@
+import { SignJWT, JWTPayload } from 'jose';
+
+// Local HMAC key for tests; handlers pick it up through AUTH_JWT_SECRET
+export const TEST_JWT_SECRET = 'test-signing-secret-at-least-32-bytes!';
+
+process.env.AUTH_JWT_SECRET = TEST_JWT_SECRET;
+
+export async function signToken(claims: JWTPayload, expiresIn: string | number = '5m'): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(new TextEncoder().encode(TEST_JWT_SECRET));
+}
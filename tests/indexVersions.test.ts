@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+const queries: { sql: string; params?: any[] }[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('FROM rag.documents')) {
+        return { rows: [{ tenant_id: 'tenant_a', doc_id: 'doc-1' }, { tenant_id: 'tenant_a', doc_id: 'doc-2' }] };
+      }
+      if (sql.includes('INSERT INTO rag.ingest_jobs')) {
+        return { rows: [{ id: queries.length, doc_id: params![1], status: 'queued' }] };
+      }
+      return { rows: [] };
+    })
+  }))
+}));
+
+// Embedding widths by model; any other model is unknown to the provider
+const MODEL_DIMENSIONS: Record<string, number> = { 'text-embedding-3-small': 1536, 'text-embedding-3-large': 3072 };
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    embeddings: {
+      create: vi.fn(async ({ model }: { model: string }) => {
+        if (!MODEL_DIMENSIONS[model]) throw new Error(`The model \`${model}\` does not exist`);
+        return { data: [{ index: 0, embedding: new Array(MODEL_DIMENSIONS[model]).fill(0) }] };
+      })
+    }
+  }))
+}));
+
+import { resolveIndexSettings, activateIndexVersion } from '../netlify/functions/shared/index-versions';
+import { handler as reindex } from '../netlify/functions/reindex';
+
+const active = { embedding_model: 'text-embedding-3-small', chunk_max_tokens: 400, chunk_overlap_tokens: 40 };
+
+describe('index settings', () => {
+  it('applies re-index overrides on top of the active index', () => {
+    expect(resolveIndexSettings({ mode: 'reindex', chunking: { max_tokens: 500 } }, active, 'text-embedding-3-large'))
+      .toEqual({ embedding_model: 'text-embedding-3-small', chunk_max_tokens: 500, chunk_overlap_tokens: 40 });
+    expect(resolveIndexSettings({ mode: 'reindex', embedding_model: 'text-embedding-3-large' }, active, 'text-embedding-3-small'))
+      .toMatchObject({ embedding_model: 'text-embedding-3-large', chunk_max_tokens: 400 });
+  });
+
+  it('keeps the active settings for a retry and uses the defaults for a fresh ingestion', () => {
+    expect(resolveIndexSettings({ mode: 'retry_failed' }, active, 'other-model')).toEqual(active);
+    expect(resolveIndexSettings({}, active, 'text-embedding-3-small'))
+      .toEqual({ embedding_model: 'text-embedding-3-small', chunk_max_tokens: 700, chunk_overlap_tokens: 120 });
+  });
+
+  it('switches versions in one transaction and drops the old chunks', async () => {
+    const client = { query: vi.fn(async (_sql: string, _params?: any[]) => ({ rows: [] })) };
+
+    await activateIndexVersion(client as any, 12, 3, 80);
+
+    const statements = client.query.mock.calls.map(call => call[0].trim());
+    expect(statements[0]).toBe('BEGIN');
+    expect(statements[statements.length - 1]).toBe('COMMIT');
+    expect(statements.some(sql => sql.includes('SET active_index_version = $2'))).toBe(true);
+    expect(client.query.mock.calls.find(call => call[0].includes('DELETE FROM rag.chunks'))?.[1]).toEqual([12, 3]);
+  });
+});
+
+describe('reindex', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}')));
+  });
+
+  async function request(role: string, body: Record<string, any>) {
+    const authorization = `Bearer ${await signToken({ sub: 'user-1', tenant_id: 'tenant_a', role })}`;
+    return reindex({ httpMethod: 'POST', headers: { authorization }, body: JSON.stringify(body) } as any, {} as any);
+  }
+
+  it('queues a reindex job per indexed document in the tenant with the new settings', async () => {
+    const response = await request('admin', { scope: 'tenant', chunking: { max_tokens: 500, overlap_tokens: 50 } });
+
+    expect(response?.statusCode).toBe(202);
+    expect(JSON.parse(response!.body!)).toMatchObject({ scope: 'tenant', queued: 2, already_queued: 0 });
+    const inserts = queries.filter(query => query.sql.includes('INSERT INTO rag.ingest_jobs'));
+    expect(inserts.map(query => query.params![1])).toEqual(['doc-1', 'doc-2']);
+    expect(JSON.parse(inserts[0].params![3])).toEqual({ mode: 'reindex', chunking: { max_tokens: 500, overlap_tokens: 50 } });
+    vi.unstubAllGlobals();
+  });
+
+  it('limits tenant-wide and global re-indexing to admins and validates settings', async () => {
+    expect((await request('teacher', { scope: 'all' }))?.statusCode).toBe(403);
+    expect((await request('admin', { scope: 'document' }))?.statusCode).toBe(400);
+    expect((await request('admin', { scope: 'tenant', chunking: { max_tokens: 200, overlap_tokens: 200 } }))?.statusCode).toBe(400);
+    expect((await request('admin', { scope: 'tenant', embedding_model: 'text-embedding-3-large' }))?.statusCode).toBe(400);
+    expect((await request('teacher', { doc_id: 'doc-1', embedding_model: 'text-embedding-3-large' }))?.statusCode).toBe(400);
+    vi.unstubAllGlobals();
+  });
+
+  it('probes a new embedding model and queues nothing unless its vectors fit', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'test-key');
+
+    const tooWide = await request('admin', { scope: 'all', embedding_model: 'text-embedding-3-large' });
+    expect(tooWide?.statusCode).toBe(400);
+    expect(JSON.parse(tooWide!.body!).details).toEqual({ embedding_model: 'text-embedding-3-large', dimensions: 3072, required: 1536 });
+
+    const unknown = await request('admin', { scope: 'all', embedding_model: 'text-embedding-4-tiny' });
+    expect(unknown?.statusCode).toBe(400);
+    expect(JSON.parse(unknown!.body!).details.message).toContain('does not exist');
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.ingest_jobs'))).toBe(false);
+
+    expect((await request('admin', { scope: 'all', embedding_model: 'text-embedding-3-small' }))?.statusCode).toBe(202);
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+const failedJobs = new Map<string, any>();
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: (name: string) => ({
+    setJSON: vi.fn(async (key: string, value: any) => {
+      failedJobs.set(`${name}/${key}`, value);
+    })
+  })
+}));
+
+// Queries the pg mock answers for ingest-start; set per test
+const pgResponses: ((sql: string, params?: any[]) => any[] | undefined)[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      for (const respond of pgResponses) {
+        const rows = respond(sql, params);
+        if (rows) return { rows };
+      }
+      return { rows: [] };
+    })
+  }))
+}));
+
+import {
+  enqueueIngestJob,
+  claimNextJob,
+  failJob,
+  retryDelayMs,
+  PermanentJobError,
+  IngestJob
+} from '../netlify/functions/shared/ingest-queue';
+import { handler as ingestStart } from '../netlify/functions/ingest-start';
+import { handler as ingestRetry } from '../netlify/functions/ingest-retry';
+
+function fakeClient(respond: (sql: string, params?: any[]) => any[] = () => []) {
+  const calls: { sql: string; params?: any[] }[] = [];
+  return {
+    calls,
+    query: async (sql: string, params?: any[]) => {
+      calls.push({ sql, params });
+      return { rows: respond(sql, params) };
+    }
+  };
+}
+
+function job(overrides: Partial<IngestJob> = {}): IngestJob {
+  return {
+    id: 7, tenant_id: 'tenant_a', doc_id: 'doc-1', idempotency_key: null, status: 'running',
+    attempts: 1, max_attempts: 5, run_after: new Date(), last_error: null, payload: {}, result: null,
+    created_at: new Date(), completed_at: null,
+    ...overrides
+  };
+}
+
+describe('ingest queue', () => {
+  beforeEach(() => {
+    failedJobs.clear();
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(10)).toBe(600_000);
+  });
+
+  it('returns the existing job when the idempotency key or an active job already covers the document', async () => {
+    const existing = job({ status: 'queued', idempotency_key: 'upload-123' });
+    const client = fakeClient(sql => (sql.includes('INSERT') ? [] : [existing]));
+
+    const result = await enqueueIngestJob(client as any, { tenantId: 'tenant_a', docId: 'doc-1', idempotencyKey: 'upload-123' });
+
+    expect(result).toEqual({ job: existing, created: false });
+    expect(client.calls[0].sql).toContain('ON CONFLICT DO NOTHING');
+  });
+
+  it('claims the tenant\'s oldest due job with SKIP LOCKED', async () => {
+    const client = fakeClient(() => [job()]);
+    const claimed = await claimNextJob(client as any, 'tenant_a', 'worker-1');
+
+    expect(claimed?.id).toBe(7);
+    const { sql, params } = client.calls[0];
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain('older.id < q.id');
+    expect(params?.slice(0, 2)).toEqual(['tenant_a', 'worker-1']);
+  });
+
+  it('requeues transient failures and dead-letters the last attempt or a permanent error', async () => {
+    const client = fakeClient();
+
+    const retry = await failJob(client as any, job({ attempts: 2 }), new Error('embedding timeout'));
+    expect(retry).toEqual({ status: 'queued', retry_in_ms: 60_000 });
+    expect(client.calls[0].params).toEqual([7, 60_000, 'embedding timeout']);
+    expect(failedJobs.size).toBe(0);
+
+    const exhausted = await failJob(client as any, job({ attempts: 5 }), new Error('embedding timeout'));
+    expect(exhausted).toEqual({ status: 'failed' });
+
+    await failJob(client as any, job({ id: 8, attempts: 1 }), new PermanentJobError('No text content extracted from document'));
+    expect(failedJobs.get('failed-jobs/tenant_a/8.json')).toMatchObject({
+      doc_id: 'doc-1',
+      attempts: 1,
+      error: 'No text content extracted from document'
+    });
+    expect(failedJobs.has('failed-jobs/tenant_a/7.json')).toBe(true);
+  });
+});
+
+describe('ingest-start', () => {
+  beforeEach(() => {
+    pgResponses.length = 0;
+  });
+
+  it('queues the document, wakes the worker and answers 202 without waiting for ingestion', async () => {
+    pgResponses.push(
+      sql => (sql.includes('SELECT id FROM rag.documents') ? [{ id: 1 }] : undefined),
+      sql => (sql.includes('INSERT INTO rag.ingest_jobs') ? [job({ id: 3, status: 'queued', attempts: 0 })] : undefined)
+    );
+    const fetchMock = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+    const response = await ingestStart({
+      httpMethod: 'POST',
+      headers: { authorization, 'idempotency-key': 'upload-123' },
+      body: JSON.stringify({ doc_id: 'doc-1' })
+    } as any, {} as any);
+
+    expect(response?.statusCode).toBe(202);
+    expect(JSON.parse(response!.body!)).toMatchObject({ job_id: 3, job_status: 'queued', created: true });
+    expect(fetchMock).toHaveBeenCalledOnce();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns 404 for a document outside the caller\'s tenant', async () => {
+    const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+    const response = await ingestStart({
+      httpMethod: 'POST',
+      headers: { authorization },
+      body: JSON.stringify({ doc_id: 'doc-b' })
+    } as any, {} as any);
+
+    expect(response?.statusCode).toBe(404);
+  });
+});
+
+describe('ingest-retry', () => {
+  const warnings = {
+    failed_pages: [{ page: 12, error: 'Invalid font dictionary' }],
+    failed_chunks: [{ chunk_index: 40, error: 'Rate limit reached' }]
+  };
+
+  beforeEach(() => {
+    pgResponses.length = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}')));
+  });
+
+  async function retry() {
+    const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+    return ingestRetry({
+      httpMethod: 'POST',
+      headers: { authorization },
+      body: JSON.stringify({ doc_id: 'doc-1' })
+    } as any, {} as any);
+  }
+
+  it('queues a retry_failed job for a document with warnings', async () => {
+    const inserts: any[][] = [];
+    pgResponses.push(
+      sql => (sql.includes('SELECT id, metadata FROM rag.documents')
+        ? [{ id: 1, metadata: { doc_id: 'doc-1', status: 'READY_WITH_WARNINGS', ingestion: { stages: {}, warnings } } }]
+        : undefined),
+      (sql, params) => {
+        if (!sql.includes('INSERT INTO rag.ingest_jobs')) return undefined;
+        inserts.push(params!);
+        return [job({ id: 4, status: 'queued', attempts: 0 })];
+      }
+    );
+
+    const response = await retry();
+
+    expect(response?.statusCode).toBe(202);
+    expect(JSON.parse(response!.body!)).toMatchObject({ job_id: 4, failed_pages: [12], failed_chunks: [40] });
+    expect(JSON.parse(inserts[0][3])).toEqual({ mode: 'retry_failed' });
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses documents without failed pieces', async () => {
+    pgResponses.push(sql => (sql.includes('FROM rag.documents') ? [{ id: 1, metadata: { doc_id: 'doc-1', status: 'READY' } }] : undefined));
+
+    const response = await retry();
+
+    expect(response?.statusCode).toBe(409);
+    expect(JSON.parse(response!.body!).code).toBe('INVALID_STATE');
+    vi.unstubAllGlobals();
+  });
+});
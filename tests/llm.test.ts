@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createStubProvider, getProvider, hashEmbedding, EMBEDDING_DIMENSIONS } from '../netlify/functions/shared/llm';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('stub provider', () => {
+  it('produces deterministic, normalised embeddings of the stored width', async () => {
+    const provider = createStubProvider();
+    const [first, again] = await provider.embed(['Wilbur the pig', 'Wilbur the pig']);
+
+    expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(again).toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+
+  it('places texts that share words closer together', () => {
+    const query = hashEmbedding('Who is Wilbur the pig?');
+    const related = hashEmbedding('Wilbur the pig lives on the farm');
+    const unrelated = hashEmbedding('Brian survives with a hatchet');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('answers by quoting the first cited passage, streamed or not', async () => {
+    const provider = createStubProvider();
+    const messages = [
+      { role: 'system' as const, content: "Based on the following information:\n\n[1] (Charlotte's Web, p. 3) Wilbur was a pig. He lived on a farm.\n\n" },
+      { role: 'user' as const, content: 'Who is Wilbur?' }
+    ];
+
+    const result = await provider.chat(messages);
+    expect(result.content).toBe('According to the source, Wilbur was a pig. [1]');
+
+    let streamed = '';
+    for await (const event of provider.chatStream(messages)) {
+      if (event.type === 'token') streamed += event.content;
+      else expect(event.usage?.completion_tokens).toBeGreaterThan(0);
+    }
+    expect(streamed).toBe(result.content);
+  });
+});
+
+describe('getProvider', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('selects the provider and models from the environment', () => {
+    process.env.LLM_PROVIDER = 'stub';
+    expect(getProvider().name).toBe('stub');
+
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+    process.env.EMBEDDING_MODEL = 'nomic-embed-text';
+    const compatible = getProvider();
+    expect(compatible.name).toBe('openai-compatible');
+    expect(compatible.embeddingModel).toBe('nomic-embed-text');
+  });
+
+  it('fails clearly on missing or unknown configuration', () => {
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    delete process.env.LLM_BASE_URL;
+    expect(() => getProvider()).toThrow('LLM_BASE_URL');
+
+    process.env.LLM_PROVIDER = 'unknown-vendor';
+    expect(() => getProvider()).toThrow('Unknown LLM_PROVIDER');
+
+    delete process.env.LLM_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+    expect(() => getProvider()).toThrow('OPENAI_API_KEY');
+  });
+});
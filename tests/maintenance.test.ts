@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Blob stores: name -> key -> metadata
+const stores = new Map<string, Map<string, Record<string, any>>>();
+const deletedBlobs: string[] = [];
+const reports = new Map<string, any>();
+const latestReports: any[] = [];
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: (name: string) => {
+    const blobs = stores.get(name) ?? new Map();
+    return {
+      list: async function* () {
+        yield { blobs: [...blobs.keys()].map(key => ({ key, etag: '1' })), directories: [] };
+      },
+      getMetadata: async (key: string) => (blobs.has(key) ? { etag: '1', metadata: blobs.get(key)! } : null),
+      delete: async (key: string) => {
+        deletedBlobs.push(`${name}/${key}`);
+      },
+      setJSON: async (key: string, value: any) => {
+        const stored = JSON.parse(JSON.stringify(value));
+        reports.set(`${name}/${key}`, stored);
+        if (key === 'latest.json') latestReports.push(stored);
+      }
+    };
+  }
+}));
+
+const queries: string[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(async () => {}),
+    query: vi.fn(async (sql: string) => {
+      queries.push(sql);
+      if (sql.includes('FROM rag.usage_daily')) throw new Error('relation "rag.usage_daily" does not exist');
+      if (sql.includes('COUNT(*) AS rows')) return { rows: [{ rows: '0' }] };
+      return { rows: [], rowCount: 0 };
+    })
+  }))
+}));
+
+import {
+  targetIvfflatLists,
+  maintenanceSettings,
+  rollUpUsage,
+  deleteOrphanedBlobs
+} from '../netlify/functions/shared/maintenance';
+import { handler as nightlyMaintenance } from '../netlify/functions/scheduled/nightly-maintenance';
+import { handler as maintenanceRun } from '../netlify/functions/background/maintenance';
+import { handler as backgroundIngest } from '../netlify/functions/background/ingest';
+
+const NOW = Date.parse('2026-10-19T02:00:00Z');
+
+function fakeClient(respond: (sql: string, params?: any[]) => any[] = () => []) {
+  const calls: { sql: string; params?: any[] }[] = [];
+  return {
+    calls,
+    query: async (sql: string, params?: any[]) => {
+      calls.push({ sql, params });
+      const rows = respond(sql, params);
+      return { rows, rowCount: rows.length };
+    }
+  };
+}
+
+describe('nightly maintenance', () => {
+  beforeEach(() => {
+    stores.clear();
+    deletedBlobs.length = 0;
+    reports.clear();
+    latestReports.length = 0;
+    queries.length = 0;
+  });
+
+  it('sizes ivfflat lists to the table', () => {
+    expect(targetIvfflatLists(5_000)).toBe(10);
+    expect(targetIvfflatLists(250_000)).toBe(250);
+    expect(targetIvfflatLists(4_000_000)).toBe(2000);
+    expect(targetIvfflatLists(1e9)).toBe(10_000);
+  });
+
+  it('reads retention and stuck thresholds from the environment', () => {
+    expect(maintenanceSettings({ RETRIEVAL_LOG_RETENTION_DAYS: '30', STUCK_INGESTION_MINUTES: 'soon' }))
+      .toEqual({ retrievalLogRetentionDays: 30, stuckIngestionMinutes: 60 });
+  });
+
+  it('rolls up the complete days since the last rollup', async () => {
+    const client = fakeClient(sql => (sql.includes('MAX(day)') ? [{ day: '2026-10-16' }] : [{}, {}]));
+
+    expect(await rollUpUsage(client as any, 90, NOW)).toEqual({ from: '2026-10-17', to: '2026-10-19', rows: 2 });
+    expect(client.calls[1].params).toEqual(['2026-10-17T00:00:00Z', '2026-10-19T00:00:00Z']);
+
+    const upToDate = fakeClient(sql => (sql.includes('MAX(day)') ? [{ day: '2026-10-18' }] : []));
+    expect((await rollUpUsage(upToDate as any, 90, NOW)).rows).toBe(0);
+    expect(upToDate.calls).toHaveLength(1);
+  });
+
+  it('deletes blobs of deleted documents once past the grace period', async () => {
+    stores.set('uploads', new Map<string, Record<string, any>>([
+      ['tenant_a/doc-live/original.pdf', {}],
+      ['tenant_a/doc-gone/original.pdf', { uploaded_at: '2026-10-01T00:00:00Z' }],
+      ['tenant_a/doc-new/original.pdf', { uploaded_at: '2026-10-19T01:59:00Z' }]
+    ]));
+    stores.set('extracted', new Map<string, Record<string, any>>([
+      ['tenant_a/doc-gone/text.txt', {}],
+      ['tenant_a/doc-live/text.txt', {}]
+    ]));
+    const client = fakeClient(() => [{ prefix: 'tenant_a/doc-live' }]);
+
+    expect(await deleteOrphanedBlobs(client as any, NOW)).toEqual({ uploads: 1, extracted: 1 });
+    expect(deletedBlobs).toEqual(['uploads/tenant_a/doc-gone/original.pdf', 'extracted/tenant_a/doc-gone/text.txt']);
+  });
+
+  it('only starts the run from the schedule, which has 30 seconds', async () => {
+    expect((await nightlyMaintenance({} as any, {} as any))?.statusCode).toBe(500);
+
+    vi.stubEnv('INGEST_WORKER_SECRET', 'worker-secret');
+    const fetchMock = vi.fn(async () => new Response('', { status: 202 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const response = await nightlyMaintenance({} as any, {} as any);
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+
+    expect(response?.statusCode).toBe(202);
+    const [url, request] = fetchMock.mock.calls[0] as any[];
+    expect(url).toMatch(/\/\.netlify\/functions\/maintenance-background$/);
+    expect(request.headers['X-Worker-Secret']).toBe('worker-secret');
+    expect(queries).toEqual([]);
+    expect(reports.size).toBe(0);
+  });
+
+  it('keeps going after a failed step, skips pruning logs that were not rolled up, and stores a report', async () => {
+    vi.stubEnv('INGEST_WORKER_SECRET', 'worker-secret');
+    const fetchMock = vi.fn(async () => new Response('', { status: 202 }));
+    vi.stubGlobal('fetch', fetchMock);
+    expect((await maintenanceRun({ headers: {} } as any, {} as any))?.statusCode).toBe(401);
+    const response = await maintenanceRun({ headers: { 'x-worker-secret': 'worker-secret' } } as any, {} as any);
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+
+    expect(response?.statusCode).toBe(500);
+    const report = reports.get('maintenance-reports/latest.json');
+    expect(report.ok).toBe(false);
+    expect(report).toMatchObject({ current_step: null });
+    expect(report.finished_at).not.toBeNull();
+    // Stored as the run goes, so one cut short still shows the step it stopped in
+    expect(latestReports[0]).toMatchObject({ finished_at: null, current_step: 'requeue_stuck_ingestion', steps: {} });
+    expect(latestReports.find(stored => stored.current_step === 'ivfflat_index')?.steps.usage_rollup).toMatchObject({ ok: false });
+    expect(report.steps.usage_rollup).toMatchObject({ ok: false, error: 'relation "rag.usage_daily" does not exist' });
+    expect(report.steps.prune_retrieval_logs).toBeUndefined();
+    expect(report.steps.ivfflat_index).toMatchObject({ ok: true, result: { rows: 0, rebuilt: false } });
+    expect(reports.has(`maintenance-reports/runs/${report.started_at}.json`)).toBe(true);
+    expect(queries.some(sql => sql.includes('DELETE FROM rag.retrieval_logs'))).toBe(false);
+
+    // Requeued jobs are run by waking the worker for every tenant with the worker secret
+    expect(report.steps.wake_ingest_worker).toMatchObject({ ok: true });
+    const [url, request] = fetchMock.mock.calls[0] as any[];
+    // Only -background functions get the 15 minutes the worker's drain budget assumes
+    expect(url).toMatch(/\/\.netlify\/functions\/ingest-background$/);
+    expect(request.headers['X-Worker-Secret']).toBe('worker-secret');
+    expect(JSON.parse(request.body)).toEqual({ all_tenants: true });
+  });
+
+  it('lets the worker secret drain every tenant, and nothing else', async () => {
+    vi.stubEnv('INGEST_WORKER_SECRET', 'worker-secret');
+    const drain = (secret: string, body: Record<string, unknown>) =>
+      backgroundIngest({ httpMethod: 'POST', headers: { 'x-worker-secret': secret }, body: JSON.stringify(body) } as any, {} as any);
+
+    const drained = await drain('worker-secret', { all_tenants: true });
+    expect(drained?.statusCode).toBe(200);
+    expect(JSON.parse(drained!.body!)).toEqual({ success: true, processed: [] });
+    expect(queries.some(sql => sql.includes('SELECT DISTINCT tenant_id FROM rag.ingest_jobs'))).toBe(true);
+
+    expect((await drain('worker-secret', { doc_id: 'doc-1', all_tenants: true }))?.statusCode).toBe(400);
+    expect((await drain('guessed', { all_tenants: true }))?.statusCode).toBe(401);
+    vi.unstubAllEnvs();
+  });
+});
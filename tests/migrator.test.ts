@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runMigrations,
+  migrationChecksum,
+  Migration,
+  MigrationLockedError,
+  MigrationChecksumError
+} from '../netlify/functions/shared/migrator';
+
+const migrations: Migration[] = [
+  { version: 2, name: 'second', statements: ['CREATE TABLE b (id INT)'] },
+  { version: 1, name: 'first', statements: ['CREATE TABLE a (id INT)', 'CREATE INDEX a_idx ON a(id)'] }
+];
+
+// Minimal pg stand-in: records statements and answers the migrator's own queries
+function fakeClient(options: { locked?: boolean; ledger?: { version: number; checksum: string }[] } = {}) {
+  const statements: string[] = [];
+  const client = {
+    statements,
+    query: async (sql: string, _params?: any[]) => {
+      statements.push(sql.trim());
+      if (sql.includes('pg_try_advisory_lock')) return { rows: [{ locked: options.locked ?? true }] };
+      if (sql.startsWith('SELECT version, checksum')) return { rows: options.ledger ?? [] };
+      return { rows: [] };
+    }
+  };
+  return client;
+}
+
+describe('runMigrations', () => {
+  it('applies pending migrations in version order, each in a transaction', async () => {
+    const client = fakeClient({ ledger: [] });
+    const result = await runMigrations(client as any, { migrations });
+
+    expect(result.applied.map(step => step.version)).toEqual([1, 2]);
+    const executed = client.statements.filter(sql => !sql.startsWith('SELECT') && !sql.startsWith('CREATE TABLE IF NOT EXISTS schema_migrations'));
+    expect(executed).toEqual([
+      'BEGIN', 'CREATE TABLE a (id INT)', 'CREATE INDEX a_idx ON a(id)',
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', 'COMMIT',
+      'BEGIN', 'CREATE TABLE b (id INT)',
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', 'COMMIT'
+    ]);
+    expect(client.statements[client.statements.length - 1]).toContain('pg_advisory_unlock');
+  });
+
+  it('lists pending steps without executing them in dry-run mode', async () => {
+    const client = fakeClient({ ledger: [{ version: 1, checksum: migrationChecksum(migrations[1]) }] });
+    const result = await runMigrations(client as any, { migrations, dryRun: true });
+
+    expect(result.pending.map(step => step.name)).toEqual(['second']);
+    expect(result.already_applied).toBe(1);
+    expect(client.statements).not.toContain('CREATE TABLE b (id INT)');
+  });
+
+  it('refuses to run while another run holds the lock', async () => {
+    const client = fakeClient({ locked: false });
+    await expect(runMigrations(client as any, { migrations })).rejects.toBeInstanceOf(MigrationLockedError);
+  });
+
+  it('refuses to run when an applied migration was edited', async () => {
+    const client = fakeClient({ ledger: [{ version: 1, checksum: 'stale' }] });
+    await expect(runMigrations(client as any, { migrations })).rejects.toBeInstanceOf(MigrationChecksumError);
+  });
+});
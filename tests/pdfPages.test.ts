@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { removeRepeatingLines, joinHyphenatedLines, joinPdfPages } from '../netlify/functions/shared/pdf-pages';
+
+function page(n: number, body: string): string {
+  const header = n % 2 === 0 ? `${n} THE HOBBIT` : `AN UNEXPECTED PARTY ${n}`;
+  return `${header}\n${body}\n- ${n} -`;
+}
+
+describe('removeRepeatingLines', () => {
+  it('drops running titles and page numbers but keeps one-off headings', () => {
+    const pages = [
+      page(1, 'Chapter 1\nIn a hole in the ground there lived a hobbit.'),
+      page(2, 'Not a nasty, dirty, wet hole.'),
+      page(3, 'It had a perfectly round door.'),
+      page(4, 'The door opened on to a tube-shaped hall.'),
+      page(5, 'Chapter 2\nRoast Mutton.'),
+      page(6, 'Up jumped Bilbo.')
+    ];
+
+    const cleaned = removeRepeatingLines(pages);
+
+    expect(cleaned[0]).toBe('Chapter 1\nIn a hole in the ground there lived a hobbit.');
+    expect(cleaned[1]).toBe('Not a nasty, dirty, wet hole.');
+    expect(cleaned[4]).toBe('Chapter 2\nRoast Mutton.');
+  });
+
+  it('leaves short documents alone apart from bare page numbers', () => {
+    expect(removeRepeatingLines(['Title\nBody one\n1', 'Title\nBody two\nii'])).toEqual([
+      'Title\nBody one',
+      'Title\nBody two'
+    ]);
+  });
+});
+
+describe('joinPdfPages', () => {
+  it('joins hyphenated line breaks and separates pages with form feeds', () => {
+    expect(joinHyphenatedLines('an extra-\nordinary day\nwell-\nKnown')).toBe('an extraordinary day\nwell-\nKnown');
+    expect(joinPdfPages(['First page', '', 'Third page'])).toBe('First page\f\fThird page');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+vi.mock('@netlify/functions', () => ({ stream: (handler: any) => handler }));
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      if (sql.includes('INSERT INTO rag.llm_token_usage')) recordedTokens.push(params![2]);
+      return {
+        rows: sql.includes('FROM rag.embeddings')
+          ? [{ id: 10, content: 'Wilbur the pig', chunk_index: 0, section: 'Chapter 1', page_from: 3, page_to: 3, document_title: 'Charlotte\'s Web', similarity: 0.9 }]
+          : []
+      };
+    })
+  }))
+}));
+
+const recordedTokens: number[] = [];
+
+// Completion stream the test controls: parts are released one at a time
+const completion = {
+  parts: [] as any[],
+  signal: null as AbortSignal | null,
+  gate: Promise.resolve(),
+  verdict: ''   // the verifier model's reply
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    embeddings: { create: vi.fn(async () => ({ data: [{ embedding: [0.1, 0.2] }] })) },
+    chat: {
+      completions: {
+        create: vi.fn(async (body: any, options: { signal: AbortSignal }) => {
+          if (!body.stream) {
+            return {
+              choices: [{ message: { content: completion.verdict }, finish_reason: 'stop' }],
+              usage: { prompt_tokens: 80, completion_tokens: 10, total_tokens: 90 }
+            };
+          }
+          completion.signal = options.signal;
+          return (async function* () {
+            for (const part of completion.parts) {
+              await completion.gate;
+              if (options.signal.aborted) throw new Error('Request was aborted.');
+              yield part;
+            }
+          })();
+        })
+      }
+    }
+  }))
+}));
+
+import { handler } from '../netlify/functions/rag-query';
+
+function token(content: string) {
+  return { choices: [{ delta: { content }, finish_reason: null }] };
+}
+
+async function request(options: Record<string, unknown> = {}) {
+  const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+  return (handler as any)({
+    httpMethod: 'POST',
+    headers: { authorization, accept: 'text/event-stream', 'x-forwarded-for': '10.0.0.2' },
+    body: JSON.stringify({ prompt: 'Who is Wilbur?', ...options })
+  }, {});
+}
+
+function parseEvents(text: string) {
+  return text.split('\n\n').filter(Boolean).map(block => JSON.parse(block.replace(/^data: /, '')));
+}
+
+describe('rag-query streaming', () => {
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    completion.gate = Promise.resolve();
+    recordedTokens.length = 0;
+  });
+
+  it('streams metadata, chunks and tokens, then usage, citations and an end event with the full answer', async () => {
+    completion.parts = [
+      token('Wilbur is '),
+      token('a pig [1].'),
+      { choices: [{ delta: {}, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 6, total_tokens: 56 } }
+    ];
+
+    const response = await request();
+    expect(response.headers['Content-Type']).toBe('text/event-stream');
+    expect(response.body).toBeInstanceOf(ReadableStream);
+
+    const events = parseEvents(await new Response(response.body).text());
+
+    expect(events.map(e => e.type)).toEqual(['metadata', 'chunks', 'token', 'token', 'usage', 'citations', 'end']);
+    expect(events[1].chunks[0]).toMatchObject({ pages: 'p. 3', citation: 1 });
+    expect(events[1].context.included).toEqual([{ chunk_id: 10, citation: 1 }]);
+    expect(events[4]).toMatchObject({ total_tokens: 56 });
+    expect(events[5].citations[0]).toMatchObject({
+      marker: 1,
+      chunk_ids: [10],
+      section: 'Chapter 1',
+      pages: 'p. 3',
+      quote: { chunk_id: 10, text: 'Wilbur the pig', start: 0, end: 14 }
+    });
+    expect(events[6]).toMatchObject({ answer: 'Wilbur is a pig [1].', finish_reason: 'stop' });
+  });
+
+  it('sends usage after an llm verification, counting the verifier model\'s tokens', async () => {
+    completion.parts = [
+      token('Wilbur is a pig [1].'),
+      { choices: [{ delta: {}, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 6, total_tokens: 56 } }
+    ];
+    completion.verdict = '{"scores": [0.9]}';
+
+    const response = await request({ verify: 'llm' });
+    const events = parseEvents(await new Response(response.body).text());
+
+    expect(events.map(e => e.type)).toEqual(['metadata', 'chunks', 'token', 'citations', 'verification', 'usage', 'end']);
+    expect(events[4]).toMatchObject({ method: 'llm', usage: { total_tokens: 90 } });
+    expect(events[5]).toMatchObject({ prompt_tokens: 130, completion_tokens: 16, total_tokens: 146 });
+    // Recorded once the stream has closed
+    await vi.waitFor(() => expect(recordedTokens).toEqual([146]));
+  });
+
+  it('sends events before generation finishes and aborts the completion when the client disconnects', async () => {
+    let release!: () => void;
+    completion.gate = new Promise(resolve => { release = resolve; });
+    completion.parts = [token('Wilbur'), token(' is a pig.')];
+
+    const response = await request();
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+
+    // Metadata arrives while the model is still blocked
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toContain('"type":"metadata"');
+
+    await reader.cancel();
+    release();
+
+    expect(completion.signal?.aborted).toBe(true);
+    // No usage came from the provider; the prompt sent is still counted against the quota
+    await vi.waitFor(() => expect(recordedTokens).toHaveLength(1));
+    expect(recordedTokens[0]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { signToken } from './helpers/tokens';
+
+// Bucket state the fake store hands back from the token bucket upsert
+const bucket = { tokens: 0, last_allowed: false };
+const queries: { sql: string; params?: any[] }[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(async () => {}),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('INSERT INTO rag.rate_limit_buckets')) return { rows: [{ ...bucket }] };
+      return { rows: [] };
+    })
+  }))
+}));
+
+import {
+  consumeRateLimit,
+  rateLimitHeaders,
+  checkTokenQuota,
+  DEFAULT_ROUTE_LIMITS
+} from '../netlify/functions/shared/rate-limit';
+import { handler as docStatus } from '../netlify/functions/doc-status';
+
+const NOW = Date.parse('2026-10-19T23:00:00Z');
+
+function fakeClient(respond: (sql: string) => any[]) {
+  return { query: async (sql: string, params?: any[]) => ({ rows: respond(sql) }) };
+}
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    queries.length = 0;
+  });
+
+  it('uses the tenant override for a route and reports the bucket', async () => {
+    const client = fakeClient(sql => {
+      if (sql.includes('FROM rag.tenant_quotas')) return [{ route_limit: { capacity: 4, refill_per_minute: 2 } }];
+      return [{ tokens: 2.5, last_allowed: true }];
+    });
+
+    const decision = await consumeRateLimit(client as any, 'tenant_a', 'upload');
+
+    expect(decision).toEqual({ allowed: true, limit: 4, remaining: 2, reset_seconds: 45, retry_after_seconds: 0 });
+    expect(rateLimitHeaders(decision)).toMatchObject({ 'X-RateLimit-Limit': '4', 'X-RateLimit-Remaining': '2', 'X-RateLimit-Reset': '45' });
+    expect(rateLimitHeaders(decision)['Retry-After']).toBeUndefined();
+  });
+
+  it('lets requests through when the limiter store fails', async () => {
+    const client = { query: async () => { throw new Error('relation "rag.tenant_quotas" does not exist'); } };
+
+    const decision = await consumeRateLimit(client as any, 'tenant_a', 'rag-query');
+
+    expect(decision).toMatchObject({ allowed: true, degraded: true, limit: DEFAULT_ROUTE_LIMITS['rag-query'].capacity });
+    expect(rateLimitHeaders(decision)).toEqual({});
+  });
+
+  it('answers an empty bucket with 429 and Retry-After', async () => {
+    Object.assign(bucket, { tokens: 0.5, last_allowed: false });
+    const authorization = `Bearer ${await signToken({ sub: 'user-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+
+    const response = await docStatus({ httpMethod: 'GET', headers: { authorization }, queryStringParameters: { doc_id: 'doc-1' } } as any, {} as any);
+
+    // doc-status refills 120 a minute: half a token is a quarter of a second away
+    expect(response.statusCode).toBe(429);
+    expect(JSON.parse(response.body!).code).toBe('RATE_LIMITED');
+    expect(response.headers).toMatchObject({ 'Retry-After': '1', 'X-RateLimit-Limit': '120', 'X-RateLimit-Remaining': '0' });
+    expect(queries.find(query => query.sql.includes('rag.rate_limit_buckets'))?.params?.slice(0, 2)).toEqual(['tenant_a', 'doc-status']);
+    expect(queries.some(query => query.sql.includes('FROM rag.documents'))).toBe(false);
+  });
+});
+
+describe('daily LLM token quota', () => {
+  it('blocks a tenant past its quota until UTC midnight', async () => {
+    const client = fakeClient(() => [{ quota: '50000', used: '50210' }]);
+
+    expect(await checkTokenQuota(client as any, 'tenant_a', NOW))
+      .toEqual({ allowed: false, limit: 50000, used: 50210, remaining: 0, reset_seconds: 3600 });
+  });
+
+  it('falls back to the configured default quota', async () => {
+    process.env.DAILY_LLM_TOKEN_QUOTA = '2000';
+    const client = fakeClient(() => [{ quota: null, used: '1500' }]);
+
+    expect(await checkTokenQuota(client as any, 'tenant_a', NOW)).toMatchObject({ allowed: true, limit: 2000, remaining: 500 });
+    delete process.env.DAILY_LLM_TOKEN_QUOTA;
+  });
+});
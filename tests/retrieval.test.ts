@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion, searchChunks, filterPredicates, ChunkResult } from '../netlify/functions/shared/retrieval';
+
+function chunk(id: number): ChunkResult {
+  return { id, content: `chunk ${id}`, chunk_index: id, similarity: null, keyword_rank: null, score: 0 };
+}
+
+function row(id: number, extra: Record<string, any>) {
+  return { id, content: `chunk ${id}`, chunk_index: id, section: null, page_from: null, page_to: null, document_title: 'Hatchet', ...extra };
+}
+
+// Answers vector and keyword queries from fixed lists and records which ran
+function fakeClient(vectorIds: number[], keywordIds: number[]) {
+  const ran: string[] = [];
+  return {
+    ran,
+    query: async (sql: string) => {
+      if (sql.includes('ivfflat.probes')) {
+        ran.push(sql.startsWith('RESET') ? 'reset probes' : 'set probes');
+        return { rows: [] };
+      }
+      if (sql.includes('FROM rag.embeddings')) {
+        ran.push('vector');
+        return { rows: vectorIds.map((id, i) => row(id, { similarity: String(0.9 - i * 0.1) })) };
+      }
+      ran.push('keyword');
+      return { rows: keywordIds.map((id, i) => row(id, { keyword_rank: String(1 - i * 0.1) })) };
+    }
+  };
+}
+
+const base = { tenantId: 'tenant_a', queryText: 'Brian hatchet', topK: 3 };
+const queryEmbeddings = [{ model: 'text-embedding-3-small', embedding: [0.1] }];
+
+describe('reciprocalRankFusion', () => {
+  it('ranks chunks found by both lists above chunks found by one', () => {
+    const fused = reciprocalRankFusion([
+      { results: [chunk(1), chunk(2), chunk(3)], weight: 1 },
+      { results: [chunk(4), chunk(2)], weight: 1 }
+    ], 60);
+
+    expect(fused.map(c => c.id)).toEqual([2, 1, 4, 3]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+  });
+
+  it('lets weights favour one list', () => {
+    const fused = reciprocalRankFusion([
+      { results: [chunk(1)], weight: 0.2 },
+      { results: [chunk(2)], weight: 1 }
+    ]);
+
+    expect(fused.map(c => c.id)).toEqual([2, 1]);
+  });
+});
+
+describe('searchChunks', () => {
+  it('runs only the full-text search in keyword mode, without an embedding', async () => {
+    const client = fakeClient([1], [7, 8]);
+    const results = await searchChunks(client as any, { ...base, mode: 'keyword' });
+
+    expect(client.ran).toEqual(['keyword']);
+    expect(results.map(c => c.id)).toEqual([7, 8]);
+    expect(results[0].similarity).toBeNull();
+  });
+
+  it('merges both searches in hybrid mode and keeps each signal', async () => {
+    const client = fakeClient([1, 2, 3], [3, 9]);
+    const results = await searchChunks(client as any, { ...base, mode: 'hybrid', queryEmbeddings });
+
+    expect(client.ran.sort()).toEqual(['keyword', 'vector']);
+    expect(results.map(c => c.id)).toEqual([3, 1, 2]);
+    expect(results[0]).toMatchObject({ similarity: 0.7, keyword_rank: 1 });
+  });
+  it('raises ivfflat probes for a filtered vector search and resets them afterwards', async () => {
+    const client = fakeClient([1], []);
+    await searchChunks(client as any, { ...base, mode: 'vector', queryEmbeddings, filters: { doc_ids: ['doc_1'] } });
+    expect(client.ran).toEqual(['set probes', 'vector', 'reset probes']);
+
+    client.ran.length = 0;
+    await searchChunks(client as any, { ...base, mode: 'vector', queryEmbeddings });
+    expect(client.ran).toEqual(['vector']);
+  });
+
+  it('searches documents with the model of their index and merges the models by similarity', async () => {
+    const rows: Record<string, any[]> = {
+      'model-old': [row(1, { similarity: '0.8' })],
+      'model-new': [row(2, { similarity: '0.9' }), row(3, { similarity: '0.5' })]
+    };
+    const models: string[] = [];
+    const client = {
+      query: async (_sql: string, params: any[]) => {
+        models.push(params[1]);
+        return { rows: rows[params[1]] };
+      }
+    };
+
+    const results = await searchChunks(client as any, {
+      ...base,
+      mode: 'vector',
+      topK: 2,
+      queryEmbeddings: [{ model: 'model-old', embedding: [0.1] }, { model: 'model-new', embedding: [0.2] }]
+    });
+
+    expect(models).toEqual(['model-old', 'model-new']);
+    expect(results.map(c => c.id)).toEqual([2, 1]);
+  });
+});
+
+describe('filterPredicates', () => {
+  it('turns filters into parameterised predicates after the caller\'s own params', () => {
+    const params: any[] = ['embedding', 'model', 'tenant_a'];
+    const sql = filterPredicates({
+      doc_ids: ['doc_1'],
+      section_range: { from: 3, to: 5 },
+      page_range: { to: 40 },
+      teks: ['6.6(B)']
+    }, params);
+
+    expect(sql).toContain("d.metadata->>'doc_id' = ANY($4::text[])");
+    expect(sql).toContain('c.section_number >= $5');
+    expect(sql).toContain('c.section_number <= $6');
+    expect(sql).toContain('c.page_from <= $7');
+    expect(sql).toContain('d.teks_codes && $8::text[]');
+    expect(params.slice(3)).toEqual([['doc_1'], 3, 5, 40, ['6.6(B)']]);
+  });
+
+  it('adds nothing without filters', () => {
+    const params: any[] = [];
+    expect(filterPredicates(undefined, params)).toBe('');
+    expect(filterPredicates({}, params)).toBe('');
+    expect(params).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Two tenants' documents and chunks; the fake client filters on the tenant parameter the way RLS would
+const documents = [
+  { id: 1, tenant_id: 'tenant_a', doc_id: 'doc-a', title: 'Charlotte\'s Web' },
+  { id: 2, tenant_id: 'tenant_b', doc_id: 'doc-b', title: 'Hatchet' }
+];
+const chunks = [
+  { id: 10, doc_id: 1, tenant_id: 'tenant_a', content: 'Wilbur the pig', chunk_index: 0 },
+  { id: 20, doc_id: 2, tenant_id: 'tenant_b', content: 'Brian and the hatchet', chunk_index: 0 }
+];
+
+const queries: { sql: string; params?: any[] }[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('FROM rag.embeddings')) {
+        const tenantId = params?.[2];
+        return {
+          rows: chunks
+            .filter(chunk => chunk.tenant_id === tenantId)
+            .map(chunk => ({ ...chunk, section: null, page_from: null, page_to: null, title: documents.find(d => d.id === chunk.doc_id)!.title, similarity: 0.9 }))
+        };
+      }
+      if (sql.includes('FROM rag.documents')) {
+        const [docId, tenantId] = params ?? [];
+        return {
+          rows: documents
+            .filter(doc => doc.doc_id === docId && doc.tenant_id === tenantId)
+            .map(doc => ({ ...doc, metadata: { doc_id: doc.doc_id, status: 'completed' }, chunks_count: 1 }))
+        };
+      }
+      return { rows: [] };
+    })
+  }))
+}));
+
+// Outside Netlify's runtime, call the streaming handler directly
+vi.mock('@netlify/functions', () => ({ stream: (handler: any) => handler }));
+
+import { handler as ragQuery } from '../netlify/functions/rag-query';
+import { handler as docStatus } from '../netlify/functions/doc-status';
+import { handler as backgroundIngest } from '../netlify/functions/background/ingest';
+import { signToken } from './helpers/tokens';
+
+function event(overrides: Record<string, any>) {
+  return { headers: {}, queryStringParameters: {}, body: null, ...overrides } as any;
+}
+
+async function bearer(tenantId: string) {
+  return `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: tenantId, role: 'teacher' })}`;
+}
+
+describe('tenant isolation', () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  beforeEach(() => {
+    queries.length = 0;
+    // Offline provider: hashed embeddings and canned answers
+    process.env.LLM_PROVIDER = 'stub';
+  });
+
+  it('only retrieves chunks belonging to the caller\'s tenant', async () => {
+    const response = await ragQuery(event({
+      httpMethod: 'POST',
+      headers: { authorization: await bearer('tenant_a'), 'x-forwarded-for': '10.0.0.1' },
+      body: JSON.stringify({ prompt: 'Who is Wilbur?' })
+    }), {} as any);
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body!);
+    expect(body.chunks.map((chunk: any) => chunk.id)).toEqual([10]);
+    expect(body.answer).toBe('According to the source, Wilbur the pig [1]');
+
+    expect(queries[0].sql).toContain("set_config('app.tenant_id'");
+    expect(queries[0].params).toEqual(['tenant_a']);
+    const log = queries.find(q => q.sql.includes('INSERT INTO rag.retrieval_logs'));
+    expect(log?.params?.[0]).toBe('tenant_a');
+  });
+
+  it('narrows the search to the legacy doc_id, which must be among filters.doc_ids', async () => {
+    const query = async (body: Record<string, unknown>) => ragQuery(event({
+      httpMethod: 'POST',
+      headers: { authorization: await bearer('tenant_a') },
+      body: JSON.stringify({ prompt: 'Who is Wilbur?', mode: 'vector', ...body })
+    }), {} as any);
+
+    expect((await query({ doc_id: 'doc-a', filters: { doc_ids: ['doc-a', 'doc-c'] } })).statusCode).toBe(200);
+    expect(queries.find(q => q.sql.includes('FROM rag.embeddings'))!.params).toContainEqual(['doc-a']);
+
+    expect((await query({ doc_id: 'doc-b', filters: { doc_ids: ['doc-a'] } })).statusCode).toBe(400);
+  });
+
+  it('reports another tenant\'s document as not found', async () => {
+    const response = await docStatus(event({
+      httpMethod: 'GET',
+      headers: { authorization: await bearer('tenant_a') },
+      queryStringParameters: { doc_id: 'doc-b' }
+    }), {} as any);
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('refuses to ingest for a tenant other than the caller\'s', async () => {
+    const response = await backgroundIngest(event({
+      httpMethod: 'POST',
+      headers: { authorization: await bearer('tenant_a') },
+      body: JSON.stringify({ tenant_id: 'tenant_b', doc_id: 'doc-b' })
+    }), {} as any);
+
+    expect(response!.statusCode).toBe(403);
+    expect(JSON.parse(response!.body!).code).toBe('FORBIDDEN');
+    expect(queries).toHaveLength(0);
+  });
+
+  it('rejects requests without a token', async () => {
+    const response = await docStatus(event({
+      httpMethod: 'GET',
+      queryStringParameters: { doc_id: 'doc-a' }
+    }), {} as any);
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { signToken } from './helpers/tokens';
+
+const storedBlobs: string[] = [];
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: () => ({
+    set: async (key: string) => {
+      storedBlobs.push(key);
+    },
+    delete: async () => {}
+  })
+}));
+
+const queries: { sql: string; params?: any[] }[] = [];
+// Documents already holding the uploaded file, newest version first
+let sameFile: Record<string, any>[] = [];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(async () => {}),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('file_sha256 = $2')) return { rows: sameFile };
+      if (sql.includes('INSERT INTO rag.documents')) return { rows: [{ id: 99 }] };
+      return { rows: [] };
+    })
+  }))
+}));
+
+import { handler as upload } from '../netlify/functions/upload';
+
+const FILE = 'The whole text of the book.';
+const SHA256 = createHash('sha256').update(FILE).digest('hex');
+const BOUNDARY = 'test-boundary';
+
+function multipart(fields: Record<string, string>): string {
+  const parts = Object.entries(fields).map(([name, value]) =>
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`);
+  parts.push(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="book.txt"\r\nContent-Type: text/plain\r\n\r\n${FILE}\r\n`);
+  return `${parts.join('')}--${BOUNDARY}--\r\n`;
+}
+
+async function send(fields: Record<string, string> = {}) {
+  const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+  const response = await upload({
+    httpMethod: 'POST',
+    headers: { authorization, 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    body: multipart({ title: 'Hatchet', type: 'book', ...fields }),
+    isBase64Encoded: false
+  } as any, {} as any);
+  return { statusCode: response.statusCode, body: JSON.parse(response.body!) };
+}
+
+describe('upload', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    storedBlobs.length = 0;
+    sameFile = [];
+  });
+
+  it('stores a new file under its sha256', async () => {
+    const response = await send();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ file_sha256: SHA256, version: 1, version_of: null, duplicate: false });
+    expect(storedBlobs).toEqual([`tenant_a/${response.body.doc_id}/${SHA256}.txt`]);
+    const insert = queries.find(query => query.sql.includes('INSERT INTO rag.documents'))!;
+    expect(insert.params!.slice(7)).toEqual([SHA256, 1]);
+  });
+
+  it('returns the existing document when the tenant already has the file', async () => {
+    sameFile = [{ id: 5, doc_id: 'doc_1', title: 'Hatchet', status: 'READY', blob_path: `tenant_a/doc_1/${SHA256}.txt`, file_size: '27', teks_codes: [], file_version: 1 }];
+
+    const response = await send();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ doc_id: 'doc_1', db_id: 5, status: 'READY', file_size: 27, duplicate: true });
+    expect(storedBlobs).toEqual([]);
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.documents'))).toBe(false);
+  });
+
+  it('creates a new version of the file only when asked to', async () => {
+    sameFile = [
+      { id: 6, doc_id: 'doc_2', status: 'DELETING', file_version: 2 },
+      { id: 5, doc_id: 'doc_1', status: 'READY', file_version: 1 }
+    ];
+
+    const response = await send({ new_version: 'true' });
+
+    expect(response.body).toMatchObject({ version: 3, version_of: 'doc_1', duplicate: false });
+    expect(storedBlobs).toHaveLength(1);
+  });
+});
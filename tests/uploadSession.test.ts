@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { signToken } from './helpers/tokens';
+
+// Blob stores: name -> key -> bytes
+const stores = new Map<string, Map<string, Buffer>>();
+const store = (name: string) => {
+  if (!stores.has(name)) stores.set(name, new Map());
+  return stores.get(name)!;
+};
+
+vi.mock('@netlify/blobs', () => ({
+  getStore: (name: string) => ({
+    set: async (key: string, value: Buffer) => {
+      store(name).set(key, Buffer.from(value));
+    },
+    get: async (key: string) => store(name).get(key) ?? null,
+    delete: async (key: string) => {
+      store(name).delete(key);
+    },
+    list: async function* ({ prefix }: { prefix: string }) {
+      yield { blobs: [...store(name).keys()].filter(key => key.startsWith(prefix)).map(key => ({ key, etag: '1' })), directories: [] };
+    }
+  })
+}));
+
+const SESSION_ID = '6f1c2a9e-3b7d-4c55-9a8e-2d4f6b1e0c37';
+const PART_SIZE = 4 * 1024 * 1024;
+const FILE = Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.alloc(PART_SIZE - 9, 'a'), Buffer.from('the last part')]);
+const SHA256 = createHash('sha256').update(FILE).digest('hex');
+
+const queries: { sql: string; params?: any[] }[] = [];
+let session: Record<string, any>;
+let parts: { part_number: number; size: number; sha256: string }[];
+let sameFile: Record<string, any>[];
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: vi.fn(),
+    end: vi.fn(),
+    query: vi.fn(async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes('file_sha256 = $2')) return { rows: sameFile };
+      if (sql.includes('INSERT INTO rag.upload_sessions')) {
+        return { rows: [{ ...session, total_size: String(params![9]), part_size: params![10], part_count: params![11] }] };
+      }
+      if (sql.includes('FROM rag.upload_sessions WHERE id = $1')) return { rows: [session] };
+      if (sql.includes('FROM rag.upload_parts')) return { rows: parts };
+      if (sql.includes("SET status = 'completing'")) return { rows: [], rowCount: 1 };
+      if (sql.includes('INSERT INTO rag.documents')) return { rows: [{ id: 31 }] };
+      return { rows: [] };
+    })
+  }))
+}));
+
+import { handler as uploadSession } from '../netlify/functions/upload-session';
+import { expectedPartSize, missingParts } from '../netlify/functions/shared/upload-sessions';
+
+async function request(method: string, query: Record<string, string>, body?: unknown) {
+  const authorization = `Bearer ${await signToken({ sub: 'teacher-1', tenant_id: 'tenant_a', role: 'teacher' })}`;
+  const response = await uploadSession({
+    httpMethod: method,
+    headers: { authorization },
+    queryStringParameters: query,
+    body: Buffer.isBuffer(body) ? body.toString('base64') : body === undefined ? null : JSON.stringify(body),
+    isBase64Encoded: Buffer.isBuffer(body)
+  } as any, {} as any);
+  return { statusCode: response!.statusCode, body: JSON.parse(response!.body!) };
+}
+
+function partHash(buffer: Buffer) {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+describe('resumable uploads', () => {
+  beforeEach(() => {
+    stores.clear();
+    queries.length = 0;
+    parts = [];
+    sameFile = [];
+    session = {
+      id: SESSION_ID, tenant_id: 'tenant_a', created_by: 'teacher-1', filename: 'atlas.pdf', mimetype: 'application/pdf',
+      title: 'World Atlas', document_type: 'book', teks_codes: [], new_version: false, total_size: String(FILE.length),
+      part_size: PART_SIZE, part_count: 2, sha256: SHA256, status: 'open', doc_id: null, expires_at: '2026-10-20T19:00:00Z'
+    };
+  });
+
+  it('sizes parts and lists the ones still missing', () => {
+    const sizes = { total_size: FILE.length, part_size: PART_SIZE, part_count: 2 };
+    expect(expectedPartSize(sizes, 1)).toBe(PART_SIZE);
+    expect(expectedPartSize(sizes, 2)).toBe(13);
+    expect(missingParts({ part_count: 3 }, [{ part_number: 2, size: 1, sha256: '' }])).toEqual([1, 3]);
+  });
+
+  it('starts a session, or returns the document when the tenant already has the file', async () => {
+    const started = await request('POST', {}, { filename: 'atlas.pdf', title: 'World Atlas', type: 'book', size: FILE.length, sha256: SHA256.toUpperCase() });
+    expect(started.statusCode).toBe(201);
+    expect(started.body).toMatchObject({ part_size: PART_SIZE, part_count: 2, missing_parts: [1, 2], sha256: SHA256 });
+
+    sameFile = [{ id: 4, doc_id: 'doc_atlas', status: 'READY', blob_path: 'tenant_a/doc_atlas/x.pdf', file_size: String(FILE.length), teks_codes: [], file_version: 1 }];
+    queries.length = 0;
+    const duplicate = await request('POST', {}, { filename: 'atlas.pdf', title: 'World Atlas', type: 'book', size: FILE.length, sha256: SHA256 });
+    expect(duplicate.body).toMatchObject({ doc_id: 'doc_atlas', duplicate: true });
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.upload_sessions'))).toBe(false);
+  });
+
+  it('checks part numbers and sizes before storing a part', async () => {
+    expect((await request('PUT', { session_id: SESSION_ID, part: '3' }, Buffer.from('x'))).statusCode).toBe(400);
+    expect((await request('PUT', { session_id: SESSION_ID, part: '2' }, Buffer.from('too short'))).statusCode).toBe(400);
+
+    const stored = await request('PUT', { session_id: SESSION_ID, part: '2' }, FILE.subarray(PART_SIZE));
+    expect(stored.body).toMatchObject({ part_number: 2, size: 13, sha256: partHash(FILE.subarray(PART_SIZE)) });
+    expect(store('upload-parts').has(`tenant_a/${SESSION_ID}/2`)).toBe(true);
+  });
+
+  it('refuses to complete until every part has arrived', async () => {
+    parts = [{ part_number: 2, size: 13, sha256: 'x' }];
+    const response = await request('POST', { session_id: SESSION_ID, action: 'complete' });
+    expect(response.statusCode).toBe(409);
+    expect(response.body.details.missing_parts).toEqual([1]);
+  });
+
+  it('assembles the parts, verifies the checksum and registers the document', async () => {
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/1`, FILE.subarray(0, PART_SIZE));
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/2`, FILE.subarray(PART_SIZE));
+    parts = [1, 2].map(part_number => ({ part_number, size: 0, sha256: '' }));
+
+    const response = await request('POST', { session_id: SESSION_ID, action: 'complete' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ db_id: 31, file_sha256: SHA256, file_size: FILE.length, version: 1, duplicate: false });
+    expect(store('uploads').get(response.body.blob_path)?.equals(FILE)).toBe(true);
+    expect(store('upload-parts').size).toBe(0);
+    const finished = queries.find(query => query.sql.includes('completed_at = CASE'))!;
+    expect(finished.params).toEqual([SESSION_ID, 'completed', response.body.doc_id]);
+  });
+
+  it('reopens the session when the assembled file does not match', async () => {
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/1`, Buffer.alloc(PART_SIZE, 'b'));
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/2`, FILE.subarray(PART_SIZE));
+    parts = [1, 2].map(part_number => ({ part_number, size: 0, sha256: '' }));
+
+    const response = await request('POST', { session_id: SESSION_ID, action: 'complete' });
+
+    expect(response.statusCode).toBe(422);
+    expect(response.body.details.expected.sha256).toBe(SHA256);
+    expect(queries.find(query => query.sql.includes('completed_at = CASE'))!.params![1]).toBe('open');
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.documents'))).toBe(false);
+  });
+
+  it('aborts the session when the assembled file is not what its name says', async () => {
+    const text = Buffer.concat([Buffer.alloc(PART_SIZE, 'a'), Buffer.from('the last part')]);
+    session.sha256 = partHash(text);
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/1`, text.subarray(0, PART_SIZE));
+    store('upload-parts').set(`tenant_a/${SESSION_ID}/2`, text.subarray(PART_SIZE));
+    parts = [1, 2].map(part_number => ({ part_number, size: 0, sha256: '' }));
+
+    const response = await request('POST', { session_id: SESSION_ID, action: 'complete' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toMatchObject({ code: 'FILE_TYPE_MISMATCH', details: { detected: 'txt', status: 'aborted' } });
+    expect(queries.find(query => query.sql.includes('completed_at = CASE'))!.params![1]).toBe('aborted');
+    expect(store('upload-parts').size).toBe(0);
+    expect(store('uploads').size).toBe(0);
+  });
+
+  it('refuses to start a session for a file type that is not accepted', async () => {
+    const response = await request('POST', {}, { filename: 'setup.exe', title: 'Setup', type: 'book', size: FILE.length, sha256: SHA256 });
+    expect(response.statusCode).toBe(415);
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.upload_sessions'))).toBe(false);
+  });
+
+  it('refuses files too large to complete within one synchronous call', async () => {
+    const response = await request('POST', {}, { filename: 'atlas.pdf', title: 'World Atlas', type: 'book', size: 33 * 1024 * 1024, sha256: SHA256 });
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toMatchObject({ code: 'VALIDATION_ERROR', details: [{ path: ['size'] }] });
+    expect(queries.some(query => query.sql.includes('INSERT INTO rag.upload_sessions'))).toBe(false);
+  });
+});
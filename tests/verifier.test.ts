@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { splitClaims, verifyAnswer } from '../netlify/functions/shared/verifier';
+import { PackedContext, Passage } from '../netlify/functions/shared/context-packer';
+import { LLMProvider } from '../netlify/functions/shared/llm';
+
+function passage(citation: number, text: string): Passage {
+  return { citation, chunk_ids: [citation * 10], section: null, page_from: null, page_to: null, tokens: 0, text };
+}
+
+const packed: PackedContext = {
+  passages: [
+    passage(1, 'Wilbur was a runt pig born on the Arable farm. Fern saved him from her father.'),
+    passage(2, 'Charlotte is a grey spider who lives in the barn doorway and writes words in her web.')
+  ],
+  included: [{ chunk_id: 10, citation: 1 }, { chunk_id: 20, citation: 2 }],
+  dropped: [],
+  tokens_used: 0,
+  token_budget: 3000
+};
+
+describe('splitClaims', () => {
+  it('splits sentences and keeps trailing citation markers with their sentence', () => {
+    const claims = splitClaims('Wilbur is a pig. [1] Charlotte writes in her web [2].\n- Both live on a farm [1, 2].');
+
+    expect(claims).toEqual([
+      { text: 'Wilbur is a pig.', citations: [1] },
+      { text: 'Charlotte writes in her web.', citations: [2] },
+      { text: 'Both live on a farm.', citations: [1, 2] }
+    ]);
+  });
+});
+
+describe('verifyAnswer', () => {
+  it('marks an answer grounded when every cited claim is backed by its passage', async () => {
+    const result = await verifyAnswer('Fern saved Wilbur, a runt pig [1]. Charlotte is a spider in the barn [2].', packed);
+
+    expect(result.verdict).toBe('grounded');
+    expect(result.flagged).toBe(0);
+    expect(result.claims.every(claim => claim.status === 'supported')).toBe(true);
+  });
+
+  it('flags miscited, unsupported and out-of-range citations', async () => {
+    const result = await verifyAnswer(
+      'Charlotte writes words in her web [1]. Wilbur wins a medal at the county fair [1]. Templeton is a rat [7]. Hope this helps!',
+      packed
+    );
+
+    expect(result.verdict).toBe('ungrounded');
+    expect(result.claims.map(claim => claim.status)).toEqual(['miscited', 'unsupported', 'invalid_citation', 'uncited']);
+    expect(result.claims[0].suggested_citations).toEqual([2]);
+    expect(result.flagged).toBe(3);
+  });
+
+  it('uses the model\'s scores with method llm and falls back to lexical on a bad reply', async () => {
+    const usage = { prompt_tokens: 90, completion_tokens: 8, total_tokens: 98 };
+    const provider = (content: string) => ({
+      chat: async () => ({ content, finishReason: 'stop', usage })
+    }) as unknown as LLMProvider;
+    const answer = 'Fern saved Wilbur [1].';
+
+    const judged = await verifyAnswer(answer, packed, { method: 'llm', provider: provider('{"scores": [0.2]}') });
+    expect(judged.method).toBe('llm');
+    expect(judged.claims[0]).toMatchObject({ status: 'unsupported', support_score: 0.2 });
+    expect(judged.usage).toEqual(usage);
+
+    const fallback = await verifyAnswer(answer, packed, { method: 'llm', provider: provider('Looks fine to me.') });
+    expect(fallback.method).toBe('lexical');
+    expect(fallback.verdict).toBe('grounded');
+    // The tokens were spent even though the reply was unusable
+    expect(fallback.usage).toEqual(usage);
+    expect((await verifyAnswer(answer, packed, { method: 'lexical' })).usage).toBeNull();
+  });
+});